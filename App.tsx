@@ -1,45 +1,69 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert, TextInput, FlatList, ActivityIndicator, ScrollView, Modal, Platform, Image } from 'react-native';
 import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
-import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { GestureHandlerRootView, Swipeable } from 'react-native-gesture-handler';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import SettingsScreen from './src/screens/SettingsScreen';
 import AttachmentModal from './src/components/AttachmentModal';
 import ReceiptGallery from './src/components/ReceiptGallery';
 import { SecureStorage } from './src/utils/storage';
+import { generateClientId, buildExternalId } from './src/utils/ids';
+import { LunchMoneyAPI, getLunchMoneyAPI } from './src/services/lunchMoneyAPI';
+import { AuthenticationError, NetworkOfflineError, getUserFacingError } from './src/services/apiErrors';
+import { syncRecentTransactions, syncOlderTransactions, refreshTransactionRange } from './src/services/transactionSync';
+import { useCacheStore, waitForCacheHydration } from './src/store/cacheStore';
+import { initializeProfiles, getProfileGeneration, getProfileSyncContext } from './src/services/profiles';
+import { extractReceiptSuggestions } from './src/services/ocr';
+import { ConfidenceBadge } from './src/components/ConfidenceBadge';
+import { deleteAttachmentFiles, getAttachmentKind, getAttachmentPages } from './src/utils/attachmentFiles';
+import { AttachmentThumbnail } from './src/components/AttachmentThumbnail';
+import ReceiptInboxScreen from './src/screens/ReceiptInboxScreen';
+import { INBOX_TRANSACTION_ID, findReceiptMatches } from './src/services/receiptInbox';
+import StorageScreen from './src/screens/StorageScreen';
+import ReceiptExportScreen from './src/screens/ReceiptExportScreen';
+import ReceiptLibraryScreen from './src/screens/ReceiptLibraryScreen';
+import ReimbursementsScreen from './src/screens/ReimbursementsScreen';
+import {
+  REIMBURSED_TAG,
+  REIMBURSEMENT_STATUS_LABELS,
+  setReimbursementStatus,
+  markReimbursed,
+} from './src/services/reimbursements';
+import { runAutomaticOrphanCleanup } from './src/services/attachmentCleanup';
+import {
+  SplitLine,
+  createSplitLine,
+  validateSplitLines,
+  getSplitSiblings,
+  toSplitLines,
+  submitSplit,
+} from './src/services/splits';
+import { SplitEditor } from './src/components/SplitEditor';
+import {
+  TransferProgress,
+  createTransfer,
+  findTransferCategory,
+  isCrossCurrencyTransfer,
+} from './src/services/transfers';
+import {
+  validateGrouping,
+  groupTransactions,
+  ungroupTransaction,
+  getGroupDates,
+} from './src/services/transactionGroups';
+import { CategoryPickerModal } from './src/components/CategoryPickerModal';
+import { BulkAction, BulkEditProgress, BULK_ACTION_LABELS, applyBulkAction } from './src/services/bulkEdit';
+import { DELETE_UNDO_WINDOW_MS, deleteTransactions, getDeletionBlocker } from './src/services/transactionDeletion';
+import { startOutboxAutoSync } from './src/services/outbox';
+import { useAppStore } from './src/store/appStore';
+import { LunchMoneyTransaction, ReceiptSuggestions, ReimbursementStatus } from './src/types';
 import MaterialIcons from 'react-native-vector-icons/MaterialIcons';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import Feather from 'react-native-vector-icons/Feather';
 import FontAwesome5 from 'react-native-vector-icons/FontAwesome5';
 import FontAwesome6 from 'react-native-vector-icons/FontAwesome6';
 
-// Lunch Money API configuration
-const LUNCH_MONEY_API_URL = 'https://dev.lunchmoney.app/v1';
-
-// Simple API client with better error handling
-const callLunchMoneyAPI = async (endpoint: string, token: string) => {
-  try {
-    const response = await fetch(`${LUNCH_MONEY_API_URL}${endpoint}`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API Error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error('API call failed:', error);
-    throw error;
-  }
-};
-
 // Currency flag mapping
 const getCurrencyFlag = (currency: string): string => {
   const flags: { [key: string]: string } = {
@@ -85,10 +109,19 @@ const getCurrencyFlag = (currency: string): string => {
 };
 
 export default function App() {
+  const api = getLunchMoneyAPI();
   const [currentScreen, setCurrentScreen] = useState('transactions');
   const [token, setToken] = useState('');
   const [transactions, setTransactions] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  
+  // Raw API transactions (before group processing) and account names, kept for incremental merges
+  const rawTransactionsRef = useRef<any[]>([]);
+  const assetMapRef = useRef<{ [key: string]: string }>({});
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [hasMoreOlderTransactions, setHasMoreOlderTransactions] = useState(true);
+  const isSyncingTransactionsRef = useRef(false);
+  const refreshQueuedRef = useRef(false);
   const [error, setError] = useState<string | null>(null);
   
   // Add Transaction state
@@ -105,6 +138,14 @@ export default function App() {
   const [isSearching, setIsSearching] = useState(false);
   const [originalTransactionType, setOriginalTransactionType] = useState<'expense' | 'income' | null>(null);
   
+  // Transfer mode of the add form: money moved between two accounts instead of spent or earned
+  const [isTransferMode, setIsTransferMode] = useState(false);
+  const [transferFromAccount, setTransferFromAccount] = useState<any>(null);
+  const [transferToAccount, setTransferToAccount] = useState<any>(null);
+  const [transferToAmount, setTransferToAmount] = useState(''); // Amount received, for cross-currency transfers
+  const [accountPickerTarget, setAccountPickerTarget] = useState<'transferFrom' | 'transferTo' | null>(null);
+  const transferProgressRef = useRef<TransferProgress>({}); // Steps of the draft transfer already saved
+  
   // Category section expanded state - now track individual category groups
   const [expandedCategoryGroups, setExpandedCategoryGroups] = useState<{[key: string]: boolean}>({});
 
@@ -181,6 +222,12 @@ export default function App() {
     }
   }, [currentScreen, accounts.length, token, selectedAccounts.length, showOnlyGrouped, showOnlyRecurring, showOnlyWithAttachments]);
 
+  // Send deletions queued while offline once the connection is back
+  useEffect(() => {
+    if (!token) return;
+    return startOutboxAutoSync();
+  }, [token]);
+
   // Handle month filter scroll to save position
   const handleMonthFilterScroll = (event: any) => {
     const scrollX = event.nativeEvent.contentOffset.x;
@@ -550,12 +597,50 @@ export default function App() {
   const [transactionDate, setTransactionDate] = useState(new Date());
   const [hasReceipt, setHasReceipt] = useState(false);
   
+  // Latest form values, for receipt recognition that finishes after the render that started it
+  const receiptFormRef = useRef({ amount, transactionPayee, transactionDate, selectedAccountData });
+  receiptFormRef.current = { amount, transactionPayee, transactionDate, selectedAccountData };
+  
+  // Fields prefilled from the first receipt attached to a new transaction
+  const [receiptSuggestions, setReceiptSuggestions] = useState<ReceiptSuggestions | null>(null);
+  const [isReadingReceipt, setIsReadingReceipt] = useState(false);
+
+  // external_id for the transaction being drafted; reused across save retries so a
+  // request that timed out but reached the server is reconciled instead of re-posted
+  const draftExternalIdRef = useRef(buildExternalId(generateClientId()));
+  const draftSubmittedRef = useRef(false);
+  
   // Edit Transaction state
   const [isEditMode, setIsEditMode] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<any>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
 
+  // Multi-select mode of the transactions list - active while anything is selected
+  const [selectedTransactionIds, setSelectedTransactionIds] = useState<string[]>([]);
+  const [showGroupModal, setShowGroupModal] = useState(false);
+  const [groupPayee, setGroupPayee] = useState('');
+  const [groupNotes, setGroupNotes] = useState('');
+  const [groupCategory, setGroupCategory] = useState<any>(null);
+  const [showGroupCategoryPicker, setShowGroupCategoryPicker] = useState(false);
+  const [isGrouping, setIsGrouping] = useState(false);
+  const [bulkModal, setBulkModal] = useState<'category' | 'tags' | 'notes' | null>(null);
+  const [bulkTags, setBulkTags] = useState<string[]>([]);
+  const [bulkNotes, setBulkNotes] = useState('');
+  const [bulkProgress, setBulkProgress] = useState<(BulkEditProgress & { label: string }) | null>(null);
+
+  // Deleted transactions stay hidden during the undo window, before anything is sent to Lunch Money
+  const [pendingDeletionIds, setPendingDeletionIds] = useState<string[]>([]);
+  const pendingDeletionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingDeletionIdsRef = useRef<string[]>([]);
+  // Deletions queued while offline are hidden until the outbox sends them
+  const outbox = useAppStore(state => state.outbox);
+
+  // Split editor state - no lines means the transaction isn't split
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([]);
+  const [splitParentId, setSplitParentId] = useState<number | null>(null); // Parent of the split being edited
+  const splitOriginalLinesRef = useRef<SplitLine[]>([]); // Restored if rebuilding the split fails
+
   // Attachment-related state
   const [showAttachmentModal, setShowAttachmentModal] = useState(false);
   const [transactionAttachments, setTransactionAttachments] = useState<any[]>([]);
@@ -570,6 +655,7 @@ export default function App() {
   
   // Local transaction metadata for app-created transactions
   const [localTransactionMetadata, setLocalTransactionMetadata] = useState<{ [transactionId: string]: any }>({});
+  const [reimbursementStatuses, setReimbursementStatuses] = useState<{ [transactionId: string]: ReimbursementStatus }>({});
 
   // Helper functions for date formatting
   // Helper function to determine if an account can be edited for new transactions
@@ -615,11 +701,86 @@ export default function App() {
     return date.toISOString();
   };
 
+  // Local YYYY-MM-DD for comparing the form date with a receipt date
+  const toLocalDateString = (date: Date) => {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  };
+
+  // Read a newly attached receipt and prefill the fields the user hasn't filled in yet.
+  // Recognition takes a while, so the form is checked as it is once it's done, not as it was.
+  const applyReceiptSuggestions = async (attachmentId: string, imageUris: string[]) => {
+    setIsReadingReceipt(true);
+    const startingDate = transactionDate.getTime();
+    try {
+      const suggestions = await extractReceiptSuggestions(imageUris);
+      const form = receiptFormRef.current;
+      const applied: ReceiptSuggestions = {};
+      
+      // Saved with the attachment so the receipt library can search its text
+      setTransactionAttachments(prev =>
+        prev.map(att => (att.id === attachmentId ? { ...att, receiptData: suggestions } : att))
+      );
+      
+      if (suggestions.amount && (!form.amount || form.amount === '0')) {
+        setAmount(suggestions.amount.value);
+        applied.amount = suggestions.amount;
+      }
+      
+      if (suggestions.payee && !form.transactionPayee.trim()) {
+        setTransactionPayee(suggestions.payee.value);
+        applied.payee = suggestions.payee;
+      }
+      
+      // The date is prefilled unless the user picked one while the receipt was being read
+      if ((suggestions.date || suggestions.time) && !form.selectedAccountData?.isPlaidAccount &&
+          form.transactionDate.getTime() === startingDate) {
+        const receiptDate = new Date(form.transactionDate);
+        if (suggestions.date) {
+          const [year, month, day] = suggestions.date.value.split('-').map(Number);
+          receiptDate.setFullYear(year, month - 1, day);
+          applied.date = suggestions.date;
+        }
+        if (suggestions.time) {
+          const [hours, minutes] = suggestions.time.value.split(':').map(Number);
+          receiptDate.setHours(hours, minutes, 0, 0);
+          applied.time = suggestions.time;
+        }
+        setTransactionDate(receiptDate);
+      }
+      
+      // Switch to a cash account in the receipt's currency when one exists
+      if (suggestions.currency && suggestions.currency.confidence >= 0.8 &&
+          form.selectedAccountData?.currency?.toLowerCase() !== suggestions.currency.value) {
+        const matchingAccount = accounts.find(account =>
+          account.subtype_name === 'physical cash' &&
+          account.currency?.toLowerCase() === suggestions.currency!.value
+        );
+        if (matchingAccount) {
+          setSelectedAccount(matchingAccount.id.toString());
+          setSelectedAccountData(matchingAccount);
+          applied.currency = suggestions.currency;
+        }
+      }
+      
+      setReceiptSuggestions(applied);
+    } catch (error) {
+      // Recognition is best effort - the attachment itself is already saved
+      console.error('❌ Receipt text recognition failed:', error);
+    } finally {
+      setIsReadingReceipt(false);
+    }
+  };
+
   // Attachment handling functions
   const handleAttachmentAdded = (attachment: any) => {
+    const isFirstReceipt = transactionAttachments.length === 0;
     setTransactionAttachments(prev => [...prev, attachment]);
     setHasReceipt(true);
     
+    if (!isEditMode && isFirstReceipt && attachment.mimeType?.startsWith('image/')) {
+      applyReceiptSuggestions(attachment.id, getAttachmentPages(attachment).map(page => page.uri));
+    }
+    
     // Update local attachments mapping if we have a valid transaction ID
     if (attachment.transactionId && attachment.transactionId !== 'temp') {
       loadLocalAttachments(); // Reload to get the latest state
@@ -636,6 +797,12 @@ export default function App() {
         Alert.alert('Error', 'Failed to remove attachment');
         return;
       }
+    } else {
+      // Not saved yet, so only the copied file needs cleaning up
+      const attachment = transactionAttachments.find(att => att.id === attachmentId);
+      if (attachment) {
+        deleteAttachmentFiles(attachment);
+      }
     }
     setTransactionAttachments(prev => prev.filter(att => att.id !== attachmentId));
     
@@ -678,6 +845,7 @@ export default function App() {
   // Load all local attachments from storage
   const loadLocalAttachments = async () => {
     try {
+      await initializeProfiles();
       const allAttachments = await SecureStorage.getAllAttachments();
       setLocalAttachments(allAttachments);
     } catch (error) {
@@ -688,6 +856,7 @@ export default function App() {
   // Load all local transaction metadata from storage
   const loadLocalTransactionMetadata = async () => {
     try {
+      await initializeProfiles();
       const allMetadata = await SecureStorage.getAllTransactionMetadata();
       setLocalTransactionMetadata(allMetadata);
     } catch (error) {
@@ -695,20 +864,73 @@ export default function App() {
     }
   };
 
+  // Load the reimbursement status of reimbursable transactions
+  const loadReimbursementStatuses = async () => {
+    try {
+      await initializeProfiles();
+      const reimbursements = await SecureStorage.getAllTransactionReimbursements();
+      const statuses: { [transactionId: string]: ReimbursementStatus } = {};
+      Object.values(reimbursements).forEach(({ transactionId, status }) => {
+        statuses[transactionId] = status;
+      });
+      setReimbursementStatuses(statuses);
+    } catch (error) {
+      console.error('Failed to load reimbursement statuses:', error);
+    }
+  };
+
+  const updateReimbursementStatus = async (status: ReimbursementStatus | null) => {
+    if (!editingTransaction?.id) return;
+    try {
+      if (status === 'reimbursed') {
+        const { failedIds } = await markReimbursed(api, [{ ...editingTransaction, tags: transactionTags }]);
+        if (failedIds.length > 0) {
+          Alert.alert('Error', 'Failed to tag the transaction in Lunch Money. Please try again when online.');
+          return;
+        }
+        // Keep the tag when the form is saved, since saving replaces the transaction's tags
+        setTransactionTags(prev => (prev.includes(REIMBURSED_TAG) ? prev : [...prev, REIMBURSED_TAG]));
+      } else {
+        await setReimbursementStatus([editingTransaction.id], status);
+      }
+      loadReimbursementStatuses();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update reimbursement status');
+    }
+  };
+
+  // Receipts of a split transaction are kept on its parent, shared by every part
+  const getAttachmentOwnerId = (transaction: any): string | number => {
+    return transaction.parent_id || transaction.id;
+  };
+
   // Check if a transaction has local attachments
   const hasLocalAttachments = (transactionId: string | number): boolean => {
     const id = String(transactionId);
-    return localAttachments[id] && localAttachments[id].length > 0;
+    return id !== INBOX_TRANSACTION_ID && localAttachments[id] && localAttachments[id].length > 0;
   };
 
+  // Transactions with a local receipt; the inbox is stored under its own key and isn't one of them
+  const attachedTransactionIds = React.useMemo(() => {
+    return Object.keys(localAttachments).filter(id => hasLocalAttachments(id));
+  }, [localAttachments]);
+
   // Final filtered transactions that includes local attachment filtering
   const finalFilteredTransactions = React.useMemo(() => {
+    const deletedIds = new Set([
+      ...pendingDeletionIds,
+      ...outbox.filter(item => item.operation === 'delete').map(item => String(item.transactionId)),
+    ]);
+    const visibleTransactions = deletedIds.size > 0
+      ? filteredTransactions.filter((transaction) => !deletedIds.has(String(transaction.id)))
+      : filteredTransactions;
+    
     if (!showOnlyWithAttachments) {
-      return filteredTransactions;
+      return visibleTransactions;
     }
     
     // Apply attachment filter checking both API attachments and local attachments
-    return filteredTransactions.filter((transaction) => {
+    return visibleTransactions.filter((transaction) => {
       // Check API-level attachments first
       if (transaction.has_attachments === true || 
           (transaction.attachments && transaction.attachments.length > 0)) {
@@ -716,13 +938,27 @@ export default function App() {
       }
       
       // Check local attachments if transaction has an ID
-      if (transaction.id && hasLocalAttachments(transaction.id)) {
+      if (transaction.id && hasLocalAttachments(getAttachmentOwnerId(transaction))) {
         return true;
       }
       
       return false;
     });
-  }, [filteredTransactions, showOnlyWithAttachments, localAttachments]);
+  }, [filteredTransactions, showOnlyWithAttachments, localAttachments, pendingDeletionIds, outbox]);
+
+  // Inbox receipts that have at least one likely transaction since the last sync. Attachments are
+  // reloaded as new objects on every change, so matching only reruns when the synced list, the
+  // inbox receipts (or what was read from them) or the attached transactions actually change.
+  const inboxReceipts = localAttachments[INBOX_TRANSACTION_ID] || [];
+  const inboxReceiptsKey = inboxReceipts.map(receipt => `${receipt.id}:${receipt.receiptData ? 1 : 0}`).join(',');
+  const attachedTransactionIdsKey = attachedTransactionIds.join(',');
+  const matchedInboxReceiptCount = React.useMemo(() => {
+    if (inboxReceipts.length === 0) {
+      return 0;
+    }
+    const attachedIds = new Set(attachedTransactionIds);
+    return inboxReceipts.filter(receipt => findReceiptMatches(receipt, transactions, attachedIds).length > 0).length;
+  }, [transactions, inboxReceiptsKey, attachedTransactionIdsKey]);
 
   // Check if account is a Plaid account and format display name with ⚡ icon
   const formatAccountDisplayName = (transaction: any): string => {
@@ -908,6 +1144,11 @@ export default function App() {
     loadSavedToken();
   }, []);
 
+  // Render cached data straight away; the server is reconciled in the background once the token loads
+  useEffect(() => {
+    restoreCachedData();
+  }, []);
+
   // Load local attachments on app start
   useEffect(() => {
     loadLocalAttachments();
@@ -918,6 +1159,11 @@ export default function App() {
     loadLocalTransactionMetadata();
   }, []);
 
+  // Load reimbursement statuses on app start
+  useEffect(() => {
+    loadReimbursementStatuses();
+  }, []);
+
   // Load transactions when token is available
   useEffect(() => {
     if (token && currentScreen === 'transactions') {
@@ -928,18 +1174,20 @@ export default function App() {
   // Load accounts when entering add transaction screen
   useEffect(() => {
     if (token && currentScreen === 'addTransaction') {
-      // Only fetch if data is not already loaded or if explicitly needed
-      if (accounts.length === 0) {
+      // Only fetch if data is not already loaded or was restored from the cache this session
+      if (accounts.length === 0 || !referenceDataRefreshedRef.current) {
         fetchAccounts();
       }
       
-      if (categories.length === 0) {
+      if (categories.length === 0 || !referenceDataRefreshedRef.current) {
         fetchCategories();
       }
       
-      if (availableTags.length === 0) {
+      if (availableTags.length === 0 || !referenceDataRefreshedRef.current) {
         fetchTags();
       }
+      
+      referenceDataRefreshedRef.current = true;
     }
     
     // Also fetch tags when entering the tags selection screen
@@ -948,11 +1196,65 @@ export default function App() {
     }
   }, [token, currentScreen]);
 
+  // Accounts, categories and tags restored from the cache are refreshed once per session
+  const referenceDataRefreshedRef = useRef(false);
+
+  const restoreCachedData = async () => {
+    await waitForCacheHydration();
+    const cache = useCacheStore.getState();
+    console.log(`💾 Restoring cache: ${cache.transactions.length} transactions, ${cache.accounts.length} accounts`);
+    
+    if (cache.accounts.length > 0) {
+      setAccounts((current) => (current.length > 0 ? current : cache.accounts));
+    }
+    if (cache.categories.length > 0) {
+      setCategories((current) => (current.length > 0 ? current : cache.categories));
+    }
+    if (cache.tags.length > 0) {
+      setAvailableTags((current) => (current.length > 0 ? current : cache.tags));
+    }
+    if (cache.transactions.length > 0 && rawTransactionsRef.current.length === 0) {
+      rawTransactionsRef.current = cache.transactions;
+      assetMapRef.current = cache.assetMap;
+      applyRawTransactions(cache.transactions, cache.assetMap);
+    }
+  };
+
+  // Drop everything loaded for the previous profile and load the new profile's data
+  const handleProfileSwitched = () => {
+    // A sync still running for the previous profile drops its results (see getProfileGeneration)
+    isSyncingTransactionsRef.current = false;
+    refreshQueuedRef.current = false;
+    setIsLoadingOlder(false);
+    rawTransactionsRef.current = [];
+    assetMapRef.current = {};
+    referenceDataRefreshedRef.current = false;
+    setTransactions([]);
+    setHasMoreOlderTransactions(true);
+    setAccounts([]);
+    setCategories([]);
+    setAvailableTags([]);
+    setSelectedAccount(null);
+    setSelectedAccounts([]);
+    setSelectedCurrencies([]);
+    setError(null);
+    setToken('');
+    
+    loadSavedToken();
+    restoreCachedData();
+    loadLocalAttachments();
+    loadLocalTransactionMetadata();
+    loadReimbursementStatuses();
+  };
+
   const loadSavedToken = async () => {
     try {
+      // The token is stored per profile, so the active profile must be known first
+      await initializeProfiles();
       const savedToken = await SecureStorage.getLunchMoneyToken();
       if (savedToken) {
         setToken(savedToken);
+        api.setApiToken(savedToken);
       }
     } catch (error) {
       console.error('Error loading token:', error);
@@ -1076,17 +1378,20 @@ export default function App() {
     }
     
     try {
-      setIsLoading(true);
+      // Cached accounts stay visible while they are refreshed
+      if (accounts.length === 0) {
+        setIsLoading(true);
+      }
       
       let allAccounts: any[] = [];
       
       // Step 1: Fetch assets (manual accounts)
       try {
-        const accountsData = await callLunchMoneyAPI('/assets', token);
+        const assets = await api.getAssets();
         
-        if (accountsData && accountsData.assets) {
+        if (assets) {
           // Filter active assets: checking accounts and physical cash
-          const activeAssets = accountsData.assets.filter((asset: any) => {
+          const activeAssets = assets.filter((asset: any) => {
             const isCheckingAccount = asset.subtype_name === "checking";
             const isPhysicalCash = asset.subtype_name === "physical cash";
             
@@ -1112,11 +1417,11 @@ export default function App() {
       
       // Step 2: Fetch Plaid accounts (bank-connected accounts)
       try {
-        const plaidData = await callLunchMoneyAPI('/plaid_accounts', token);
+        const plaidAccounts = await api.getPlaidAccounts();
         
-        if (plaidData && plaidData.plaid_accounts) {
+        if (plaidAccounts) {
           // Filter active Plaid accounts
-          const activePlaidAccounts = plaidData.plaid_accounts.filter((plaidAccount: any) => {
+          const activePlaidAccounts = plaidAccounts.filter((plaidAccount: any) => {
             // For plaid accounts: active means status is "active"
             const isActive = plaidAccount.status === "active";
             
@@ -1138,6 +1443,7 @@ export default function App() {
       }
       
       setAccounts(allAccounts);
+      useCacheStore.getState().setAccounts(allAccounts);
       
       if (allAccounts.length === 0) {
         setError('No active accounts found. Please check your Lunch Money account setup.');
@@ -1149,7 +1455,7 @@ export default function App() {
       }
     } catch (error) {
       console.error('Error fetching accounts:', error);
-      setError('Failed to fetch accounts');
+      setError(getUserFacingError(error).message);
     } finally {
       setIsLoading(false);
     }
@@ -1163,20 +1469,19 @@ export default function App() {
     
     try {
       console.log('📂 Fetching categories for selection...');
-      const categoriesData = await callLunchMoneyAPI('/categories', token);
-      console.log('📂 Raw categories response:', categoriesData);
+      const allCategories = await api.getCategories();
       
-      if (categoriesData && categoriesData.categories) {
-        console.log('📂 All categories:', categoriesData.categories);
+      if (allCategories) {
+        console.log('📂 All categories:', allCategories);
         
         // Debug: Log the structure of the first category to see available fields
-        if (categoriesData.categories.length > 0) {
-          console.log('🔍 First category structure:', JSON.stringify(categoriesData.categories[0], null, 2));
-          console.log('🔍 Available category fields:', Object.keys(categoriesData.categories[0]));
+        if (allCategories.length > 0) {
+          console.log('🔍 First category structure:', JSON.stringify(allCategories[0], null, 2));
+          console.log('🔍 Available category fields:', Object.keys(allCategories[0]));
         }
         
         // Filter for active categories (not archived)
-        const activeCategories = categoriesData.categories.filter((category: any) => {
+        const activeCategories = allCategories.filter((category: any) => {
           // Most categories should be active by default, but let's check for archived flag
           const isActive = !category.archived;
           console.log(`Category ${category.name}: active=${isActive}, archived=${category.archived}`);
@@ -1185,6 +1490,7 @@ export default function App() {
         
         console.log('📂 Filtered active categories:', activeCategories);
         setCategories(activeCategories);
+        useCacheStore.getState().setCategories(activeCategories);
         
         if (activeCategories.length === 0) {
           console.log('⚠️ No active categories found after filtering');
@@ -1194,7 +1500,7 @@ export default function App() {
       }
     } catch (error) {
       console.log('❌ Error fetching categories:', error);
-      setError('Failed to fetch categories');
+      setError(getUserFacingError(error).message);
     }
   };
 
@@ -1207,7 +1513,7 @@ export default function App() {
     
     try {
       console.log('🏷️ Fetching tags...');
-      const tagsData = await callLunchMoneyAPI('/tags', token);
+      const tagsData = await api.getTags();
       console.log('🏷️ Raw tags response:', tagsData);
       
       if (tagsData && Array.isArray(tagsData)) {
@@ -1221,14 +1527,15 @@ export default function App() {
         const uniqueTags = [...new Set(tagNames)].sort();
         console.log('🏷️ Processed tags:', uniqueTags);
         setAvailableTags(uniqueTags);
+        useCacheStore.getState().setTags(uniqueTags);
       } else {
         console.log('🏷️ No tags found or unexpected format');
         setAvailableTags([]);
       }
     } catch (error) {
       console.log('❌ Error fetching tags:', error);
-      // Don't set error for tags as they're optional
-      setAvailableTags([]);
+      // Don't set error for tags as they're optional; keep any cached tags
+      setAvailableTags(useCacheStore.getState().tags);
     }
   };
 
@@ -1268,12 +1575,35 @@ export default function App() {
       errors.push('Transaction date cannot be in the future');
     }
     
+    // Validate split lines add up to the amount
+    if (splitLines.length > 0) {
+      errors.push(...validateSplitLines(amount, splitLines));
+    }
+    
     return {
       isValid: errors.length === 0,
       errors
     };
   };
 
+  // Show an API error with an action matching its type (e.g. open Settings on auth failures)
+  const showAPIError = (error: unknown, onRetry?: () => void) => {
+    const { title, message, action } = getUserFacingError(error);
+    const buttons: { text: string; style?: 'cancel'; onPress?: () => void }[] = [];
+    
+    if (action === 'openSettings') {
+      buttons.push({ text: 'Cancel', style: 'cancel' });
+      buttons.push({ text: 'Open Settings', onPress: () => setCurrentScreen('settings') });
+    } else if (action === 'retry' && onRetry) {
+      buttons.push({ text: 'Cancel', style: 'cancel' });
+      buttons.push({ text: 'Retry', onPress: onRetry });
+    } else {
+      buttons.push({ text: 'OK' });
+    }
+    
+    Alert.alert(title, message, buttons);
+  };
+
   // Save transaction function
   const saveTransaction = async () => {
     const validation = validateTransaction();
@@ -1299,15 +1629,17 @@ export default function App() {
       const isIncomeTransaction = selectedCategoryData?.is_income || false;
       const transactionAmount = parseFloat(amount);
       
-      const transactionData: any = {
+      const transactionData: Omit<LunchMoneyTransaction, 'id'> = {
         date: transactionDate.toISOString().split('T')[0], // YYYY-MM-DD format (required)
-        amount: transactionAmount, // Always positive amount - let category determine income/expense
-        payee: transactionPayee.trim() || undefined,
-        notes: transactionNote.trim() || undefined,
+        amount: String(transactionAmount), // Always positive amount - let category determine income/expense
+        payee: transactionPayee.trim(),
         category_id: parseInt(selectedCategory!),
         status: 'cleared', // Set status to cleared as requested
-        tags: transactionTags.length > 0 ? transactionTags.map((tag: any) => typeof tag === 'object' ? tag.id : tag) : undefined,
+        external_id: draftExternalIdRef.current,
       };
+      if (transactionNote.trim()) {
+        transactionData.notes = transactionNote.trim();
+      }
 
       // Add account information - either asset_id OR plaid_account_id, not both
       const accountInfo = accounts.find(acc => acc.id.toString() === selectedAccount);
@@ -1331,58 +1663,42 @@ export default function App() {
         console.log('⚠️ Warning: No account info found for selected account:', selectedAccount);
       }
 
-      // Remove undefined values to keep request clean
-      const cleanTransactionData = Object.fromEntries(
-        Object.entries(transactionData).filter(([_, v]) => v !== undefined)
-      );
+      console.log('💾 Saving transaction:', transactionData);
       
-      console.log('💾 Saving transaction:', cleanTransactionData);
-      
-      // Format request body according to API documentation
-      const requestBody = {
-        transactions: [cleanTransactionData], // API expects array of transactions
-        apply_rules: false,
-        skip_duplicates: false,
-        check_for_recurring: false,
-        debit_as_negative: false, // We send positive amounts, let category determine type
-        skip_balance_update: true
-      };
-      
-      // Call Lunch Money API to create transaction
-      const response = await fetch(`${LUNCH_MONEY_API_URL}/transactions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+      // A previous save attempt may have reached the server - reconcile before re-posting
+      const reconcile = draftSubmittedRef.current;
+      draftSubmittedRef.current = true;
+
+      const createdTransaction = await api.createTransaction(transactionData, {
+        reconcile,
+        applyRules: false,
+        checkForRecurring: false,
+        debitAsNegative: false, // We send positive amounts, let category determine type
+        skipBalanceUpdate: true,
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.log('❌ API Error Response:', errorData);
-        
-        // Handle API error format according to documentation
-        const errorMessage = errorData.error || 
-                            (errorData.errors && Array.isArray(errorData.errors) ? errorData.errors.join(', ') : 'Unknown error');
-        
-        throw new Error(`Failed to save transaction: ${errorMessage}`);
-      }
-      
-      const result = await response.json();
-      console.log('✅ Transaction saved successfully:', result);
-      
-      // Check if we got transaction IDs back (indicates success)
-      if (!result.ids || !Array.isArray(result.ids) || result.ids.length === 0) {
-        throw new Error('Transaction was not created - no IDs returned');
+      console.log('✅ Transaction saved successfully:', createdTransaction.id);
+
+      // Tags are set by name, which the insert payload doesn't take
+      if (transactionTags.length > 0) {
+        await api.setTransactionTags(createdTransaction.id!, transactionTags);
       }
 
       // Link attachments to the created transaction
-      const createdTransactionId = result.ids[0].toString();
+      const createdTransactionId = createdTransaction.id!.toString();
       if (transactionAttachments.length > 0) {
         await linkAttachmentsToTransaction(createdTransactionId);
       }
       
+      // Split the new transaction into its lines
+      if (splitLines.length > 0) {
+        const splitIds = await submitSplit(api, createdTransaction.id!, splitLines, {
+          date: transactionData.date,
+          payee: transactionData.payee || undefined,
+          categoryId: transactionData.category_id,
+        });
+        console.log('✂️ Transaction split into:', splitIds);
+      }
+      
       // Store transaction metadata with complete datetime
       try {
         await SecureStorage.storeTransactionMetadata({
@@ -1406,11 +1722,101 @@ export default function App() {
       
     } catch (error) {
       console.log('❌ Error saving transaction:', error);
-      Alert.alert(
-        'Error',
-        `Failed to save transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        [{ text: 'OK' }]
+      showAPIError(error, saveTransaction);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Switch the add form to transfer mode, receiving into the selected account by default
+  const startTransferMode = () => {
+    setIsTransferMode(true);
+    if (!transferToAccount && selectedAccountData) {
+      setTransferToAccount(selectedAccountData);
+    }
+  };
+
+  const isSameAccount = (a: any, b: any) => {
+    return Boolean(a && b && a.id === b.id && a.accountType === b.accountType);
+  };
+
+  // Save a transfer: one transaction per account, grouped so it shows as a single transfer
+  const saveTransfer = async () => {
+    const errors: string[] = [];
+    const fromAmount = parseFloat(amount);
+    const isCrossCurrency = isCrossCurrencyTransfer(transferFromAccount, transferToAccount);
+    const toAmount = isCrossCurrency ? parseFloat(transferToAmount) : fromAmount;
+    const transferCategory = findTransferCategory(categories);
+    
+    if (isNaN(fromAmount) || fromAmount <= 0) {
+      errors.push('Amount must be greater than 0');
+    }
+    if (isCrossCurrency && (isNaN(toAmount) || toAmount <= 0)) {
+      errors.push('Please enter the amount received');
+    }
+    if (!transferFromAccount || !transferToAccount) {
+      errors.push('Please select both accounts');
+    } else if (isSameAccount(transferFromAccount, transferToAccount)) {
+      errors.push('Please select two different accounts');
+    }
+    if (!transferCategory) {
+      errors.push('Add a "Transfer" category in Lunch Money to record transfers');
+    }
+    if (transactionDate > new Date()) {
+      errors.push('Transaction date cannot be in the future');
+    }
+    
+    if (errors.length > 0) {
+      Alert.alert('Validation Error', errors.join('\n'), [{ text: 'OK' }]);
+      return;
+    }
+    
+    setIsLoading(true);
+    
+    try {
+      // A previous save attempt may have reached the server - reconcile before re-posting
+      const reconcile = draftSubmittedRef.current;
+      draftSubmittedRef.current = true;
+      
+      const groupId = await createTransfer(
+        api,
+        {
+          date: transactionDate.toISOString().split('T')[0],
+          fromAccount: transferFromAccount,
+          toAccount: transferToAccount,
+          fromAmount,
+          toAmount,
+          categoryId: transferCategory!.id,
+          notes: transactionNote.trim() || undefined,
+          tags: transactionTags,
+          externalId: draftExternalIdRef.current,
+        },
+        transferProgressRef.current,
+        reconcile
       );
+      console.log('✅ Transfer saved as group:', groupId);
+      
+      // Receipts (e.g. an ATM slip) are kept on the transfer group
+      if (transactionAttachments.length > 0) {
+        await linkAttachmentsToTransaction(groupId.toString());
+      }
+      
+      try {
+        await SecureStorage.storeTransactionMetadata({
+          transactionId: groupId.toString(),
+          fullDatetime: transactionDate.toISOString(),
+          createdInApp: true
+        });
+      } catch (error) {
+        console.log('⚠️ Failed to store transfer metadata:', error);
+      }
+      
+      resetTransactionForm();
+      setCurrentScreen('transactions');
+      fetchTransactions();
+    } catch (error) {
+      console.log('❌ Error saving transfer:', error);
+      showAPIError(error, saveTransfer);
     } finally {
       setIsLoading(false);
     }
@@ -1483,10 +1889,27 @@ export default function App() {
     setTransactionType('expense'); // Reset to default
     setOriginalTransactionType(null); // Reset original transaction type
     
+    // Start a new draft with a fresh external_id
+    draftExternalIdRef.current = buildExternalId(generateClientId());
+    draftSubmittedRef.current = false;
+    
     // Reset attachment state
     setTransactionAttachments([]);
     setHasReceipt(false);
     setCurrentTransactionId(null);
+    setReceiptSuggestions(null);
+    
+    // Reset split state
+    setSplitLines([]);
+    setSplitParentId(null);
+    splitOriginalLinesRef.current = [];
+    
+    // Reset transfer state
+    setIsTransferMode(false);
+    setTransferFromAccount(null);
+    setTransferToAccount(null);
+    setTransferToAmount('');
+    transferProgressRef.current = {};
     
     // Auto-select preferred account after reset (only if accounts exist)
     if (accounts.length > 0) {
@@ -1494,142 +1917,240 @@ export default function App() {
     }
   };
 
-  const fetchTransactions = async () => {
-    if (!token) return;
-
-    setIsLoading(true);
-    setError(null);
-
+  // Fetch accounts and build a mapping of account IDs to display names
+  const fetchAssetMap = async (): Promise<{ [key: string]: string }> => {
+    let assetMap: { [key: string]: string } = {};
     try {
-      console.log('🔄 Fetching all transactions...');
+      const assets = await api.getAssets();
+      
+      // Create a mapping of asset_id to display_name and store accounts
+      if (assets) {
+        // Filter for non-Plaid accounts only (manual accounts)
+        const manualAccounts = assets.filter((asset: any) => 
+          !asset.plaid_account_id && asset.status === 'active'
+        );
+        setAccounts(manualAccounts);
+        
+        assets.forEach((asset: any) => {
+          assetMap[asset.id.toString()] = asset.display_name || asset.name;
+        });
+      }
       
-      // First, let's fetch accounts to see what's available
-      let accountsData;
-      let assetMap: { [key: string]: string } = {};
+      // Also try to get Plaid accounts which might have different IDs
       try {
-        accountsData = await callLunchMoneyAPI('/assets', token);
+        const plaidAccounts = await api.getPlaidAccounts();
         
-        // Create a mapping of asset_id to display_name and store accounts
-        if (accountsData && accountsData.assets) {
-          // Filter for non-Plaid accounts only (manual accounts)
-          const manualAccounts = accountsData.assets.filter((asset: any) => 
-            !asset.plaid_account_id && asset.status === 'active'
-          );
-          setAccounts(manualAccounts);
-          
-          accountsData.assets.forEach((asset: any) => {
-            assetMap[asset.id.toString()] = asset.display_name || asset.name;
+        if (plaidAccounts) {
+          plaidAccounts.forEach((account: any) => {
+            // Map plaid_account_id to display_name for better account resolution
+            if (account.id && account.display_name) {
+              assetMap[`plaid_${account.id}`] = account.display_name;
+            }
           });
         }
-        
-        // Also try to get Plaid accounts which might have different IDs
-        try {
-          const plaidData = await callLunchMoneyAPI('/plaid_accounts', token);
-          
-          if (plaidData && plaidData.plaid_accounts) {
-            plaidData.plaid_accounts.forEach((account: any) => {
-              // Map plaid_account_id to display_name for better account resolution
-              if (account.id && account.display_name) {
-                assetMap[`plaid_${account.id}`] = account.display_name;
-              }
-            });
-          }
-        } catch (plaidError) {
-        }
-      } catch (accountError) {
+      } catch (plaidError) {
       }
+    } catch (accountError) {
+    }
+    
+    return assetMap;
+  };
+
+  // Process transfer groups and sort raw API transactions for display
+  const applyRawTransactions = (fetchedTransactions: any[], assetMap: { [key: string]: string }) => {
+    let allTransactions: any[] = [];
+    
+    // Add regular transactions (which already include executed recurring transactions)
+    if (fetchedTransactions) {
+      console.log(`📊 Found ${fetchedTransactions.length} regular transactions`);
       
-      // Fetch more transactions and include all types
-      // Get transactions from the last 6 months to ensure we get recent data
-      const endDate = new Date().toISOString().split('T')[0];
-      const startDate = new Date(Date.now() - 180 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-      
-      console.log(`📅 Date range: ${startDate} to ${endDate}`);
+      // Log a few sample transactions to understand the transfer structure
+      const sampleTransactions = fetchedTransactions.slice(0, 3);
       
-      // Fetch regular transactions with no limit to get all transactions
-      const transactionData = await callLunchMoneyAPI(
-        `/transactions?start_date=${startDate}&end_date=${endDate}&limit=0&debit_as_negative=false`, 
-        token
+      // Check for transfer-related fields
+      const transferTransactions = fetchedTransactions.filter((t: any) => 
+        t.category === 'Transfer' || t.category_name === 'Transfer' || t.group_id || t.is_group
       );
       
-      let allTransactions: any[] = [];
+      allTransactions = [...fetchedTransactions];
       
-      // Add regular transactions (which already include executed recurring transactions)
-      if (transactionData && transactionData.transactions) {
-        console.log(`📊 Found ${transactionData.transactions.length} regular transactions`);
-        
-        // Log a few sample transactions to understand the transfer structure
-        const sampleTransactions = transactionData.transactions.slice(0, 3);
-        
-        // Check for transfer-related fields
-        const transferTransactions = transactionData.transactions.filter((t: any) => 
-          t.category === 'Transfer' || t.category_name === 'Transfer' || t.group_id || t.is_group
-        );
-        
-        allTransactions = [...transactionData.transactions];
-        
-        // Group by account for debugging
-        const accountGroups: { [key: string]: number } = {};
-        const recurringCount = transactionData.transactions.filter((t: any) => t.recurring_id).length;
-        
-        transactionData.transactions.forEach((t: any) => {
-          const account = t.account_display_name || t.asset_display_name || t.plaid_account_display_name || 'Unknown';
-          accountGroups[account] = (accountGroups[account] || 0) + 1;
-        });
-        console.log(`🔄 Found ${recurringCount} transactions with recurring_id (recurring transactions)`);
-        
-        // Process transfer groups to combine grouped transfer transactions
-        allTransactions = processTransferGroups(allTransactions, assetMap);
-        console.log(`📊 After processing transfers: ${allTransactions.length} transactions`);
-      }
+      // Group by account for debugging
+      const accountGroups: { [key: string]: number } = {};
+      const recurringCount = fetchedTransactions.filter((t: any) => t.recurring_id).length;
       
-      // Sort transactions by date and time (newest to oldest)
-      const sortedTransactions = allTransactions.sort((a: any, b: any) => {
-        // Get correct dates for both transactions (prioritizing Plaid metadata)
-        const dateA = new Date(getCorrectTransactionDate(a));
-        const dateB = new Date(getCorrectTransactionDate(b));
-        
-        // First sort by date (newest to oldest)
-        const dateDiff = dateB.getTime() - dateA.getTime();
-        if (dateDiff !== 0) {
-          return dateDiff;
-        }
-        
-        // If dates are the same, sort by time
-        const timeA = getPlaidDateTime(a);
-        const timeB = getPlaidDateTime(b);
-        
-        // Both have time - sort by time (newest to oldest)
-        if (timeA && timeB) {
-          return timeB.getTime() - timeA.getTime();
-        }
-        
-        // One has time, one doesn't - put timed transaction first
-        if (timeA && !timeB) {
-          return -1; // a comes before b
-        }
-        if (!timeA && timeB) {
-          return 1; // b comes before a
-        }
-        
-        // Neither has time - maintain original order (by id if available)
-        if (a.id && b.id) {
-          return Number(b.id) - Number(a.id);
-        }
-        
-        return 0;
+      fetchedTransactions.forEach((t: any) => {
+        const account = t.account_display_name || t.asset_display_name || t.plaid_account_display_name || 'Unknown';
+        accountGroups[account] = (accountGroups[account] || 0) + 1;
       });
+      console.log(`🔄 Found ${recurringCount} transactions with recurring_id (recurring transactions)`);
+      
+      // Process transfer groups to combine grouped transfer transactions
+      allTransactions = processTransferGroups(allTransactions, assetMap);
+      console.log(`📊 After processing transfers: ${allTransactions.length} transactions`);
+    }
+    
+    // Sort transactions by date and time (newest to oldest)
+    const sortedTransactions = allTransactions.sort((a: any, b: any) => {
+      // Get correct dates for both transactions (prioritizing Plaid metadata)
+      const dateA = new Date(getCorrectTransactionDate(a));
+      const dateB = new Date(getCorrectTransactionDate(b));
+      
+      // First sort by date (newest to oldest)
+      const dateDiff = dateB.getTime() - dateA.getTime();
+      if (dateDiff !== 0) {
+        return dateDiff;
+      }
+      
+      // If dates are the same, sort by time
+      const timeA = getPlaidDateTime(a);
+      const timeB = getPlaidDateTime(b);
+      
+      // Both have time - sort by time (newest to oldest)
+      if (timeA && timeB) {
+        return timeB.getTime() - timeA.getTime();
+      }
+      
+      // One has time, one doesn't - put timed transaction first
+      if (timeA && !timeB) {
+        return -1; // a comes before b
+      }
+      if (!timeA && timeB) {
+        return 1; // b comes before a
+      }
+      
+      // Neither has time - maintain original order (by id if available)
+      if (a.id && b.id) {
+        return Number(b.id) - Number(a.id);
+      }
+      
+      return 0;
+    });
+    
+    console.log(`📊 Total transactions after merging: ${sortedTransactions.length}`);
+    
+    setTransactions(sortedTransactions);
+  };
+
+  // Sync the most recent transactions (initial sync, or an incremental refresh once data is loaded)
+  const fetchTransactions = async () => {
+    if (!token) return;
+    if (isSyncingTransactionsRef.current) {
+      // Refresh again once the running sync finishes (e.g. right after saving a transaction)
+      refreshQueuedRef.current = true;
+      return;
+    }
+
+    isSyncingTransactionsRef.current = true;
+    setError(null);
+    const generation = getProfileGeneration();
+    const isStale = () => generation !== getProfileGeneration();
+
+    try {
+      // Show cached transactions first and only block the list when there is nothing to show
+      await restoreCachedData();
+      if (isStale()) return;
+      if (rawTransactionsRef.current.length === 0) {
+        setIsLoading(true);
+      }
+      
+      console.log('🔄 Syncing recent transactions...');
+      
+      const assetMap = await fetchAssetMap();
+      if (isStale()) return;
+      assetMapRef.current = assetMap;
       
-      console.log(`📊 Total transactions after merging: ${sortedTransactions.length}`);
+      const syncContext = await getProfileSyncContext();
+      if (isStale()) return;
+      const isInitialSync = rawTransactionsRef.current.length === 0;
+      const result = await syncRecentTransactions(syncContext.api, rawTransactionsRef.current, syncContext.profileId);
+      if (isStale()) {
+        console.log('👤 Profile switched during sync - discarding results');
+        return;
+      }
+      rawTransactionsRef.current = result.transactions;
+      if (isInitialSync) {
+        setHasMoreOlderTransactions(result.hasMoreOlder);
+      }
       
-      setTransactions(sortedTransactions);
+      applyRawTransactions(result.transactions, assetMapRef.current);
+      useCacheStore.getState().setTransactions(result.transactions, assetMapRef.current);
+      cleanUpOrphanedAttachments();
     } catch (error) {
       console.error('❌ Error fetching transactions:', error);
-      setError('Failed to load transactions. Check your API token.');
-      // Keep sample data as fallback
-      setTransactions(sampleTransactions);
+      if (isStale()) return;
+      setError(getUserFacingError(error).message);
+      if (error instanceof AuthenticationError) {
+        // Point the user straight to Settings instead of leaving them with a stale list
+        showAPIError(error);
+      }
+      // Keep sample data as fallback when nothing has been loaded yet
+      if (rawTransactionsRef.current.length === 0) {
+        setTransactions(sampleTransactions);
+      }
     } finally {
-      setIsLoading(false);
+      if (!isStale()) {
+        isSyncingTransactionsRef.current = false;
+        setIsLoading(false);
+        runQueuedRefresh();
+      }
+    }
+  };
+
+  // Apply the automatic cleanup setting now that the cache reflects the server
+  const cleanUpOrphanedAttachments = async () => {
+    try {
+      if (await runAutomaticOrphanCleanup() > 0) {
+        loadLocalAttachments();
+      }
+    } catch (error) {
+      console.error('Error cleaning up orphaned attachments:', error);
+    }
+  };
+
+  const runQueuedRefresh = () => {
+    if (refreshQueuedRef.current) {
+      refreshQueuedRef.current = false;
+      fetchTransactions();
+    }
+  };
+
+  // Load the next older month of transactions when the list is scrolled to the end
+  const loadOlderTransactions = async () => {
+    if (
+      !token ||
+      isSyncingTransactionsRef.current ||
+      isLoadingOlder ||
+      !hasMoreOlderTransactions ||
+      rawTransactionsRef.current.length === 0
+    ) {
+      return;
+    }
+
+    isSyncingTransactionsRef.current = true;
+    setIsLoadingOlder(true);
+    const generation = getProfileGeneration();
+    const isStale = () => generation !== getProfileGeneration();
+    try {
+      console.log('⏪ Loading older transactions...');
+      const syncContext = await getProfileSyncContext();
+      if (isStale()) return;
+      const result = await syncOlderTransactions(syncContext.api, rawTransactionsRef.current, syncContext.profileId);
+      if (isStale()) return;
+      rawTransactionsRef.current = result.transactions;
+      setHasMoreOlderTransactions(result.hasMoreOlder);
+      applyRawTransactions(result.transactions, assetMapRef.current);
+      useCacheStore.getState().setTransactions(result.transactions, assetMapRef.current);
+    } catch (error) {
+      console.error('❌ Error loading older transactions:', error);
+      if (!isStale()) {
+        setError(getUserFacingError(error).message);
+      }
+    } finally {
+      if (!isStale()) {
+        isSyncingTransactionsRef.current = false;
+        setIsLoadingOlder(false);
+        runQueuedRefresh();
+      }
     }
   };
 
@@ -1641,25 +2162,22 @@ export default function App() {
         
         console.log('Testing token...');
         // Test the token first
-        await callLunchMoneyAPI('/me', token.trim());
+        await new LunchMoneyAPI(token.trim()).getMe();
         
         // Save token if valid
         await SecureStorage.setLunchMoneyToken(token.trim());
+        api.setApiToken(token.trim());
         setCurrentScreen('transactions');
       } catch (error) {
         console.error('Token validation failed:', error);
-        let errorMessage = 'Invalid token. Please check and try again.';
+        let errorMessage = getUserFacingError(error).message;
         
-        if (error instanceof Error) {
-          if (error.message.includes('401')) {
-            errorMessage = 'Invalid API token. Please check your token from Lunch Money settings.';
-          } else if (error.message.includes('403')) {
-            errorMessage = 'Token lacks required permissions.';
-          } else if (error.message.includes('Network')) {
-            errorMessage = 'Network error. Please check your internet connection.';
-          } else {
-            errorMessage = `Error: ${error.message}`;
-          }
+        if (error instanceof AuthenticationError) {
+          errorMessage = error.status === 403
+            ? 'Token lacks required permissions.'
+            : 'Invalid API token. Please check your token from Lunch Money settings.';
+        } else if (error instanceof NetworkOfflineError) {
+          errorMessage = 'Network error. Please check your internet connection.';
         }
         
         Alert.alert('Error', errorMessage);
@@ -2223,17 +2741,117 @@ export default function App() {
     // Store the original type for Plaid account restrictions
     setOriginalTransactionType(originalType);
     
+    // Parts of a split are edited together, as the split of their parent
+    setSplitLines([]);
+    setSplitParentId(null);
+    splitOriginalLinesRef.current = [];
+    if (transaction.parent_id) {
+      loadSplitForEditing(transaction);
+    }
+    
     // Load local attachments for this transaction
-    loadTransactionAttachments(transaction.id);
+    loadTransactionAttachments(getAttachmentOwnerId(transaction));
   };
 
+  // Load the whole split a transaction belongs to into the edit form
+  const loadSplitForEditing = async (transaction: any) => {
+    const siblings = getSplitSiblings(transaction, transactions);
+    const lines = toSplitLines(siblings);
+    const total = lines.reduce((sum, line) => sum + parseFloat(line.amount), 0);
+    setSplitParentId(transaction.parent_id);
+    setSplitLines(lines);
+    splitOriginalLinesRef.current = lines;
+    setAmount(total.toFixed(2));
+    
+    // Notes, tags and category of the whole purchase are on the parent, which isn't listed
+    try {
+      const parent = await api.getTransaction(transaction.parent_id);
+      setTransactionNote(parent.notes || '');
+      setTransactionTags((parent.tags || []).map(tag => tag.name));
+      const categoryData = categories.find(cat => cat.id === parent.category_id);
+      if (categoryData) {
+        setSelectedCategory(categoryData.id.toString());
+        setSelectedCategoryData(categoryData);
+      }
+    } catch (error) {
+      console.log('⚠️ Failed to load split parent, keeping details of the selected part:', error);
+    }
+  };
+
+  // Start splitting the transaction, with everything allocated to its current category
+  const startSplit = () => {
+    setSplitLines([
+      createSplitLine({ amount: parseFloat(amount || '0').toFixed(2), categoryId: selectedCategory ? parseInt(selectedCategory) : null }),
+      createSplitLine(),
+    ]);
+  };
+
+  // Split section shared by the add and edit forms
+  const renderSplitSection = () => (
+    <View style={styles.detailsSection}>
+      <Text style={styles.detailsLabel}>SPLIT</Text>
+      {splitLines.length > 0 ? (
+        <View>
+          <SplitEditor
+            total={amount}
+            lines={splitLines}
+            onChange={setSplitLines}
+            categories={categories}
+            tags={availableTags.length > 0 ? availableTags : useCacheStore.getState().tags}
+            currency={selectedAccountData?.currency}
+            defaultCategoryName={selectedCategoryData?.name}
+          />
+          <TouchableOpacity 
+            style={styles.addTagButton}
+            onPress={() => setSplitLines([])}
+          >
+            <Text style={styles.addTagText}>REMOVE SPLIT</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity 
+          style={styles.addTagButton}
+          onPress={startSplit}
+        >
+          <Text style={styles.addTagText}>SPLIT TRANSACTION</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
   // Function to save transaction changes
+  // Re-split a parent with the lines it had when the edit started
+  const restoreOriginalSplit = async (parentId: number) => {
+    try {
+      await submitSplit(api, parentId, splitOriginalLinesRef.current, {
+        date: editingTransaction.date,
+        payee: editingTransaction.payee,
+      });
+      console.log('✂️ Original split restored');
+    } catch (error) {
+      console.error('❌ Failed to restore the original split:', error);
+      Alert.alert(
+        'Split Not Restored',
+        'The transaction was left unsplit in Lunch Money. Split it again from the edit screen.',
+        [{ text: 'OK' }]
+      );
+    }
+  };
+
   const saveTransactionChanges = async () => {
     if (!editingTransaction || !token) {
       console.error('No transaction to edit or token missing');
       return;
     }
 
+    if (splitLines.length > 0) {
+      const splitErrors = validateSplitLines(amount, splitLines);
+      if (splitErrors.length > 0) {
+        Alert.alert('Validation Error', splitErrors.join('\n'), [{ text: 'OK' }]);
+        return;
+      }
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -2268,19 +2886,31 @@ export default function App() {
         }
       }
 
-      // Make PUT request to update transaction
-      const response = await fetch(`${LUNCH_MONEY_API_URL}/transactions/${editingTransaction.id}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ transaction: updateData }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`API Error: ${response.status} ${response.statusText} - ${errorText}`);
+      // A split is rebuilt on its parent: the parent can't be changed while it is split
+      const targetId = splitParentId ?? editingTransaction.id;
+      const applyChanges = async () => {
+        await api.updateTransaction(targetId, updateData);
+        if (splitLines.length > 0) {
+          const splitIds = await submitSplit(api, targetId, splitLines, {
+            date: updateData.date,
+            payee: updateData.payee,
+            categoryId: updateData.category_id ?? undefined,
+          });
+          console.log('✂️ Transaction split into:', splitIds);
+        }
+      };
+      
+      if (splitParentId) {
+        // Unsplit only once everything is validated, and put the original split back on failure
+        await api.unsplitTransactions([splitParentId]);
+        try {
+          await applyChanges();
+        } catch (error) {
+          await restoreOriginalSplit(splitParentId);
+          throw error;
+        }
+      } else {
+        await applyChanges();
       }
       
       console.log('✅ Transaction updated successfully');
@@ -2288,11 +2918,11 @@ export default function App() {
       // Store updated transaction metadata with complete datetime
       try {
         await SecureStorage.storeTransactionMetadata({
-          transactionId: editingTransaction.id.toString(),
+          transactionId: targetId.toString(),
           fullDatetime: transactionDate.toISOString(),
           createdInApp: false // This is an edit of existing transaction
         });
-        console.log('✅ Transaction metadata updated for ID:', editingTransaction.id);
+        console.log('✅ Transaction metadata updated for ID:', targetId);
         
         // Reload local metadata to reflect changes
         await loadLocalTransactionMetadata();
@@ -2312,7 +2942,8 @@ export default function App() {
       
     } catch (error) {
       console.error('❌ Failed to update transaction:', error);
-      setError(error instanceof Error ? error.message : 'Failed to update transaction');
+      setError(getUserFacingError(error).message);
+      showAPIError(error, saveTransactionChanges);
     } finally {
       setIsLoading(false);
     }
@@ -2340,7 +2971,236 @@ export default function App() {
     setCurrentScreen('editTransaction');
   };
 
-  const renderTransaction = ({ item }: { item: any }) => {
+  const isSelectionMode = selectedTransactionIds.length > 0;
+  const selectedTransactions = transactions.filter(t => selectedTransactionIds.includes(String(t.id)));
+
+  const toggleTransactionSelection = (transaction: any) => {
+    if (!transaction.id) return;
+    const id = String(transaction.id);
+    setSelectedTransactionIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  // Tapping a row selects it while in multi-select mode, otherwise opens it
+  const handleTransactionRowPress = (transaction: any) => {
+    if (isSelectionMode) {
+      toggleTransactionSelection(transaction);
+    } else {
+      handleTransactionPress(transaction);
+    }
+  };
+
+  // Select everything the current search and filters show
+  const selectAllFilteredTransactions = () => {
+    setSelectedTransactionIds(finalFilteredTransactions.filter(t => t.id).map(t => String(t.id)));
+  };
+
+  // Run a bulk action on the selection; transactions that fail stay selected so it can be retried
+  const runBulkAction = async (action: BulkAction) => {
+    const targets = selectedTransactions;
+    const label = BULK_ACTION_LABELS[action.type];
+    setBulkModal(null);
+    setBulkProgress({ label, done: 0, total: targets.length });
+    
+    try {
+      const result = await applyBulkAction(api, targets, action, progress => setBulkProgress({ label, ...progress }));
+      setSelectedTransactionIds(result.failed.map(failure => failure.id));
+      
+      if (result.failed.length > 0) {
+        const reasons = Array.from(new Set(result.failed.map(failure => failure.message)));
+        Alert.alert(
+          'Some Updates Failed',
+          `${result.failed.length} of ${targets.length} transactions could not be updated and are still selected.\n\n${reasons.join('\n')}`,
+          [{ text: 'OK' }]
+        );
+      }
+      if (result.succeededIds.length > 0) {
+        await refreshTransactionDates(
+          targets.filter(t => result.succeededIds.includes(String(t.id))).map(t => t.date)
+        );
+      }
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const confirmBulkDelete = () => {
+    Alert.alert(
+      `Delete ${selectedTransactionIds.length} Transactions`,
+      'The selected transactions will be deleted from Lunch Money.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            if (scheduleDeletion(selectedTransactions)) {
+              setSelectedTransactionIds([]);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Send the deletions whose undo window is over; failed ones reappear in the list
+  const commitPendingDeletion = async () => {
+    if (pendingDeletionTimerRef.current) {
+      clearTimeout(pendingDeletionTimerRef.current);
+      pendingDeletionTimerRef.current = null;
+    }
+    const ids = pendingDeletionIdsRef.current;
+    if (ids.length === 0) return;
+    pendingDeletionIdsRef.current = [];
+    
+    try {
+      const result = await deleteTransactions(api, ids);
+      const removedIds = [...result.deletedIds, ...result.queuedIds];
+      
+      if (removedIds.length > 0) {
+        const remaining = rawTransactionsRef.current.filter(t => !removedIds.includes(String(t.id)));
+        rawTransactionsRef.current = remaining;
+        applyRawTransactions(remaining, assetMapRef.current);
+        useCacheStore.getState().setTransactions(remaining, assetMapRef.current);
+        loadLocalAttachments();
+        loadLocalTransactionMetadata();
+        loadReimbursementStatuses();
+      }
+      if (result.queuedIds.length > 0) {
+        console.log(`📴 Offline - ${result.queuedIds.length} deletions queued`);
+      }
+      if (result.failed.length > 0) {
+        const reasons = Array.from(new Set(result.failed.map(failure => failure.message)));
+        Alert.alert(
+          'Some Deletions Failed',
+          `${result.failed.length} of ${ids.length} transactions could not be deleted and are back in the list.\n\n${reasons.join('\n')}`,
+          [{ text: 'OK' }]
+        );
+      }
+    } finally {
+      setPendingDeletionIds(prev => prev.filter(id => !ids.includes(id)));
+    }
+  };
+
+  // Hide the transactions and delete them once the undo window is over. Returns false when blocked.
+  const scheduleDeletion = (targets: any[]): boolean => {
+    const blocked = targets.filter(t => getDeletionBlocker(t) !== null);
+    if (blocked.length > 0) {
+      Alert.alert('Cannot Delete', blocked.map(t => `Transaction on ${t.date} ${getDeletionBlocker(t)}`).join('\n'), [{ text: 'OK' }]);
+      return false;
+    }
+    
+    // A single undo snackbar at a time: an earlier deletion is sent right away
+    commitPendingDeletion();
+    
+    const ids = targets.map(t => String(t.id));
+    pendingDeletionIdsRef.current = ids;
+    setPendingDeletionIds(prev => [...prev, ...ids]);
+    pendingDeletionTimerRef.current = setTimeout(commitPendingDeletion, DELETE_UNDO_WINDOW_MS);
+    return true;
+  };
+
+  const undoPendingDeletion = () => {
+    if (pendingDeletionTimerRef.current) {
+      clearTimeout(pendingDeletionTimerRef.current);
+      pendingDeletionTimerRef.current = null;
+    }
+    const ids = pendingDeletionIdsRef.current;
+    pendingDeletionIdsRef.current = [];
+    setPendingDeletionIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  // Re-read the dates touched by a change made from the list, which may be older than a regular refresh
+  const refreshTransactionDates = async (dates: string[]) => {
+    const sorted = dates.map(date => date.substring(0, 10)).sort();
+    try {
+      const updated = await refreshTransactionRange(api, rawTransactionsRef.current, {
+        startDate: sorted[0],
+        endDate: sorted[sorted.length - 1],
+      });
+      rawTransactionsRef.current = updated;
+      applyRawTransactions(updated, assetMapRef.current);
+      useCacheStore.getState().setTransactions(updated, assetMapRef.current);
+    } catch (error) {
+      console.error('❌ Error refreshing transactions:', error);
+      fetchTransactions();
+    }
+  };
+
+  // Open the group form for the selection, named after its largest transaction
+  const openGroupModal = () => {
+    const errors = validateGrouping(selectedTransactions);
+    if (errors.length > 0) {
+      Alert.alert('Cannot Group', errors.join('\n'), [{ text: 'OK' }]);
+      return;
+    }
+    const largest = [...selectedTransactions].sort((a, b) => 
+      Math.abs(parseFloat(b.amount || 0)) - Math.abs(parseFloat(a.amount || 0))
+    )[0];
+    setGroupPayee(largest?.payee || '');
+    setGroupNotes('');
+    setGroupCategory(categories.find(cat => cat.id === largest?.category_id) || null);
+    setShowGroupModal(true);
+  };
+
+  const saveTransactionGroup = async () => {
+    if (!groupPayee.trim()) {
+      Alert.alert('Validation Error', 'Please enter a payee for the group', [{ text: 'OK' }]);
+      return;
+    }
+    
+    setIsGrouping(true);
+    try {
+      const groupId = await groupTransactions(api, selectedTransactions, {
+        payee: groupPayee.trim(),
+        categoryId: groupCategory?.id,
+        notes: groupNotes.trim() || undefined,
+      });
+      console.log('✅ Transactions grouped:', groupId);
+      setShowGroupModal(false);
+      setSelectedTransactionIds([]);
+      await refreshTransactionDates(selectedTransactions.map(t => t.date));
+    } catch (error) {
+      console.log('❌ Error grouping transactions:', error);
+      showAPIError(error, saveTransactionGroup);
+    } finally {
+      setIsGrouping(false);
+    }
+  };
+
+  // Dissolve groups back into their transactions
+  const ungroupTransactions = (groups: any[], onUngrouped?: () => void) => {
+    Alert.alert(
+      groups.length === 1 ? 'Ungroup Transaction' : `Ungroup ${groups.length} Transactions`,
+      'The grouped transactions will be listed separately again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Ungroup',
+          style: 'destructive',
+          onPress: async () => {
+            setIsLoading(true);
+            try {
+              for (const group of groups) {
+                await ungroupTransaction(api, Number(group.id));
+              }
+              await loadLocalAttachments();
+              onUngrouped?.();
+              await refreshTransactionDates(groups.flatMap(getGroupDates));
+            } catch (error) {
+              console.log('❌ Error ungrouping transactions:', error);
+              showAPIError(error);
+            } finally {
+              setIsLoading(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderTransactionCard = (item: any) => {
+    const isSelected = selectedTransactionIds.includes(String(item.id));
+
     // Simple currency display - just use the currency code from API
     const currency = item.currency?.toUpperCase() || 'USD';
     
@@ -2350,8 +3210,8 @@ export default function App() {
       const displayAmount = Math.abs(amount);
 
       return (
-        <TouchableOpacity onPress={() => handleTransactionPress(item)}>
-          <View style={[styles.transactionCard, styles.transferCard]}>
+        <TouchableOpacity onPress={() => handleTransactionRowPress(item)} onLongPress={() => toggleTransactionSelection(item)}>
+          <View style={[styles.transactionCard, styles.transferCard, isSelected && styles.transactionCardSelected]}>
           {/* First line: Amount (left) and Date (right) */}
           <View style={styles.transactionHeader}>
             <Text style={[styles.amount, styles.transfer]}>
@@ -2396,19 +3256,8 @@ export default function App() {
       const amountStyle = item.is_split_payment ? styles.expense : styles.grouped;
 
       return (
-        <TouchableOpacity 
-          onPress={() => handleTransactionPress(item)}
-          onLongPress={() => {
-            // Debug: Show Plaid detection info on long press
-            const childrenInfo = item.group_children?.map((child: any, i: number) => 
-              `Child ${i+1}: ${child.account_display_name || 'No Name'} (Plaid: ${!!(child.plaid_account_id || child.plaid_account_display_name || child.institution_name)})`
-            ).join('\n') || 'No children';
-            
-            const debugInfo = `Transaction: ${item.payee}\nAccount: ${item.account_display_name}\nIs Grouped: ${item.is_grouped_non_transfer}\nChildren: ${item.group_children?.length || 0}\nDirect Plaid: ${!!(item.plaid_account_id || item.plaid_account_display_name || item.institution_name)}\n\nChildren Details:\n${childrenInfo}\n\nFormatted: ${formatAccountDisplayName(item)}`;
-            Alert.alert('Debug Info', debugInfo, [{ text: 'OK' }], { cancelable: true });
-          }}
-        >
-          <View style={[styles.transactionCard, cardStyle]}>
+        <TouchableOpacity onPress={() => handleTransactionRowPress(item)} onLongPress={() => toggleTransactionSelection(item)}>
+          <View style={[styles.transactionCard, cardStyle, isSelected && styles.transactionCardSelected]}>
           {/* First line: Amount (left) and Date (right) */}
           <View style={styles.transactionHeader}>
             <Text style={[styles.amount, amountStyle]}>
@@ -2443,7 +3292,7 @@ export default function App() {
           {/* Bottom line: Icons (left) and Account (right) */}
           <View style={styles.bottomLine}>
             <View style={styles.leftIcons}>
-              {(item.has_attachment || item.attachments?.length > 0 || hasLocalAttachments(item.id)) && (
+              {(item.has_attachment || item.attachments?.length > 0 || hasLocalAttachments(getAttachmentOwnerId(item))) && (
                 <Text style={[styles.receiptIcon, styles.iconSpacing]}>📎</Text>
               )}
               <Text style={styles.receiptIcon}>{item.is_split_payment ? '↔' : '↩'}</Text>
@@ -2518,8 +3367,8 @@ export default function App() {
     const displayNotes = item.notes;
 
     return (
-      <TouchableOpacity onPress={() => handleTransactionPress(item)}>
-        <View style={[styles.transactionCard, isIncome ? styles.incomeCard : styles.expenseCard]}>
+      <TouchableOpacity onPress={() => handleTransactionRowPress(item)} onLongPress={() => toggleTransactionSelection(item)}>
+        <View style={[styles.transactionCard, isIncome ? styles.incomeCard : styles.expenseCard, isSelected && styles.transactionCardSelected]}>
         {/* First line: Amount (left) and Date (right) */}
         <View style={styles.transactionHeader}>
           <Text style={[styles.amount, isIncome ? styles.income : styles.expense]}>
@@ -2542,11 +3391,14 @@ export default function App() {
         {/* Bottom line: Icons (left) and Account (right) */}
         <View style={styles.bottomLine}>
           <View style={styles.leftIcons}>
-            {(item.has_attachment || item.attachments?.length > 0 || hasLocalAttachments(item.id)) && (
+            {(item.has_attachment || item.attachments?.length > 0 || hasLocalAttachments(getAttachmentOwnerId(item))) && (
               <Text style={[styles.receiptIcon, styles.iconSpacing]}>📎</Text>
             )}
             {isRecurring && (
-              <Text style={styles.receiptIcon}>🔄</Text>
+              <Text style={[styles.receiptIcon, styles.iconSpacing]}>🔄</Text>
+            )}
+            {item.parent_id && (
+              <Text style={styles.receiptIcon}>✂️</Text>
             )}
           </View>
           <Text style={styles.account}>
@@ -2558,6 +3410,26 @@ export default function App() {
     );
   };
 
+  // Rows can be swiped left to delete, except while selecting
+  const renderTransaction = ({ item }: { item: any }) => {
+    if (isSelectionMode || getDeletionBlocker(item) !== null) {
+      return renderTransactionCard(item);
+    }
+    return (
+      <Swipeable
+        overshootRight={false}
+        renderRightActions={() => (
+          <TouchableOpacity style={styles.swipeDeleteAction} onPress={() => scheduleDeletion([item])}>
+            <Feather name="trash-2" size={20} color="#fff" />
+            <Text style={styles.swipeDeleteText}>Delete</Text>
+          </TouchableOpacity>
+        )}
+      >
+        {renderTransactionCard(item)}
+      </Swipeable>
+    );
+  };
+
   // Transactions Screen
   if (currentScreen === 'transactions') {
     return (
@@ -2569,6 +3441,35 @@ export default function App() {
             <Text style={styles.appName}>Transactions</Text>
           </View>
           <View style={styles.topBannerRightSection}>
+            {token && (
+              <TouchableOpacity 
+                style={styles.settingsButton}
+                onPress={() => setCurrentScreen('reimbursements')}
+              >
+                <Feather name="briefcase" size={20} color="#2D7D7A" />
+              </TouchableOpacity>
+            )}
+            {token && (
+              <TouchableOpacity 
+                style={styles.settingsButton}
+                onPress={() => setCurrentScreen('receiptLibrary')}
+              >
+                <Feather name="image" size={20} color="#2D7D7A" />
+              </TouchableOpacity>
+            )}
+            {token && (
+              <TouchableOpacity 
+                style={styles.settingsButton}
+                onPress={() => setCurrentScreen('receiptInbox')}
+              >
+                <Feather name="inbox" size={20} color="#2D7D7A" />
+                {(localAttachments[INBOX_TRANSACTION_ID]?.length || 0) > 0 && (
+                  <View style={styles.inboxBadge}>
+                    <Text style={styles.inboxBadgeText}>{localAttachments[INBOX_TRANSACTION_ID].length}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            )}
             <TouchableOpacity 
               style={styles.settingsButton}
               onPress={() => setCurrentScreen('settings')}
@@ -2608,6 +3509,15 @@ export default function App() {
               </View>
             )}
             
+            {matchedInboxReceiptCount > 0 && (
+              <TouchableOpacity style={styles.inboxMatchBanner} onPress={() => setCurrentScreen('receiptInbox')}>
+                <Text style={styles.inboxMatchText}>
+                  🧾 {matchedInboxReceiptCount} {matchedInboxReceiptCount === 1 ? 'receipt matches' : 'receipts match'} synced transactions
+                </Text>
+                <Text style={styles.inboxMatchAction}>Review</Text>
+              </TouchableOpacity>
+            )}
+            
             {isLoading ? (
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color="#007AFF" />
@@ -2615,6 +3525,72 @@ export default function App() {
               </View>
             ) : (
               <>
+                {/* Multi-select actions */}
+                {isSelectionMode && (
+                  <View style={styles.selectionBar}>
+                    <View style={styles.selectionHeader}>
+                      <TouchableOpacity onPress={() => setSelectedTransactionIds([])} disabled={!!bulkProgress}>
+                        <Feather name="x" size={20} color="#333" />
+                      </TouchableOpacity>
+                      <Text style={styles.selectionCount}>{selectedTransactionIds.length} selected</Text>
+                      {!bulkProgress && selectedTransactionIds.length < finalFilteredTransactions.length && (
+                        <TouchableOpacity onPress={selectAllFilteredTransactions}>
+                          <Text style={styles.selectAllText}>SELECT ALL</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                    {bulkProgress ? (
+                      <View style={styles.selectionProgress}>
+                        <ActivityIndicator size="small" color="#007AFF" />
+                        <Text style={styles.selectionProgressText}>
+                          {bulkProgress.label} {bulkProgress.done}/{bulkProgress.total}
+                        </Text>
+                      </View>
+                    ) : (
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.selectionActions}>
+                        <TouchableOpacity style={styles.selectionAction} onPress={() => setBulkModal('category')}>
+                          <Text style={styles.selectionActionText}>CATEGORY</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity 
+                          style={styles.selectionAction}
+                          onPress={() => {
+                            setBulkTags([]);
+                            setBulkModal('tags');
+                          }}
+                        >
+                          <Text style={styles.selectionActionText}>TAGS</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity 
+                          style={styles.selectionAction}
+                          onPress={() => {
+                            setBulkNotes('');
+                            setBulkModal('notes');
+                          }}
+                        >
+                          <Text style={styles.selectionActionText}>NOTES</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.selectionAction} onPress={() => runBulkAction({ type: 'markReviewed' })}>
+                          <Text style={styles.selectionActionText}>REVIEWED</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.selectionAction} onPress={openGroupModal}>
+                          <Text style={styles.selectionActionText}>GROUP</Text>
+                        </TouchableOpacity>
+                        {selectedTransactions.length > 0 && selectedTransactions.every(t => t.is_group) && (
+                          <TouchableOpacity 
+                            style={styles.selectionAction}
+                            onPress={() => ungroupTransactions(selectedTransactions, () => setSelectedTransactionIds([]))}
+                          >
+                            <Text style={styles.selectionActionText}>UNGROUP</Text>
+                          </TouchableOpacity>
+                        )}
+                        <TouchableOpacity style={[styles.selectionAction, styles.selectionActionDestructive]} onPress={confirmBulkDelete}>
+                          <Text style={styles.selectionActionText}>DELETE</Text>
+                        </TouchableOpacity>
+                      </ScrollView>
+                    )}
+                  </View>
+                )}
+                
                 <View style={styles.sectionTitleContainer}>
                   <TouchableOpacity 
                     style={[
@@ -2697,20 +3673,183 @@ export default function App() {
                 <FlatList
                   data={finalFilteredTransactions}
                   renderItem={renderTransaction}
+                  extraData={selectedTransactionIds}
                   keyExtractor={(item) => item.id?.toString() || Math.random().toString()}
                   style={styles.mainTransactionsList}
                   showsVerticalScrollIndicator={false}
                   contentContainerStyle={styles.transactionsListContent}
                   onScroll={handleScroll}
                   scrollEventThrottle={16}
+                  onEndReached={loadOlderTransactions}
+                  onEndReachedThreshold={0.5}
+                  ListFooterComponent={
+                    isLoadingOlder ? (
+                      <View style={styles.listFooterLoading}>
+                        <ActivityIndicator size="small" color="#007AFF" />
+                        <Text style={styles.listFooterText}>Loading older transactions...</Text>
+                      </View>
+                    ) : null
+                  }
                 />
               </>
             )}
           </>
         )}
 
+        {/* Group form for the selected transactions */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={showGroupModal}
+          onRequestClose={() => setShowGroupModal(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContainer}>
+              <View style={styles.modalHeader}>
+                <TouchableOpacity onPress={() => setShowGroupModal(false)}>
+                  <Text style={styles.modalCancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <Text style={styles.modalTitle}>Group {selectedTransactions.length} Transactions</Text>
+                <TouchableOpacity onPress={saveTransactionGroup} disabled={isGrouping}>
+                  {isGrouping ? (
+                    <ActivityIndicator size="small" color="#007AFF" />
+                  ) : (
+                    <Text style={styles.modalDoneText}>Group</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+              <View style={styles.groupForm}>
+                <Text style={styles.detailsLabel}>PAYEE</Text>
+                <TextInput
+                  style={styles.detailsInput}
+                  placeholder="Enter payee name"
+                  placeholderTextColor="#A0A0A0"
+                  value={groupPayee}
+                  onChangeText={setGroupPayee}
+                />
+                <Text style={[styles.detailsLabel, styles.groupFormLabel]}>CATEGORY</Text>
+                <TouchableOpacity style={styles.detailsInput} onPress={() => setShowGroupCategoryPicker(true)}>
+                  <Text style={groupCategory ? styles.detailsInputText : styles.detailsPlaceholder}>
+                    {groupCategory ? groupCategory.name : 'Select Category'}
+                  </Text>
+                </TouchableOpacity>
+                <Text style={[styles.detailsLabel, styles.groupFormLabel]}>NOTES</Text>
+                <TextInput
+                  style={styles.detailsInput}
+                  placeholder="Description"
+                  placeholderTextColor="#A0A0A0"
+                  value={groupNotes}
+                  onChangeText={setGroupNotes}
+                />
+              </View>
+            </View>
+          </View>
+          <CategoryPickerModal
+            visible={showGroupCategoryPicker}
+            title="Group Category"
+            categories={categories}
+            selectedId={groupCategory?.id}
+            onSelect={(category) => {
+              setGroupCategory(category);
+              setShowGroupCategoryPicker(false);
+            }}
+            onClose={() => setShowGroupCategoryPicker(false)}
+          />
+        </Modal>
+
+        {/* Bulk edit forms for the selected transactions */}
+        <CategoryPickerModal
+          visible={bulkModal === 'category'}
+          title={`Category for ${selectedTransactionIds.length} Transactions`}
+          categories={categories}
+          onSelect={(category) => runBulkAction({ type: 'setCategory', categoryId: category.id })}
+          onClose={() => setBulkModal(null)}
+        />
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={bulkModal === 'tags' || bulkModal === 'notes'}
+          onRequestClose={() => setBulkModal(null)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContainer}>
+              <View style={styles.modalHeader}>
+                <TouchableOpacity onPress={() => setBulkModal(null)}>
+                  <Text style={styles.modalCancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <Text style={styles.modalTitle}>{bulkModal === 'tags' ? 'Tags' : 'Notes'}</Text>
+                {bulkModal === 'notes' ? (
+                  <TouchableOpacity onPress={() => runBulkAction({ type: 'setNotes', notes: bulkNotes.trim() })}>
+                    <Text style={styles.modalDoneText}>Save</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <View />
+                )}
+              </View>
+              {bulkModal === 'notes' ? (
+                <View style={styles.groupForm}>
+                  <TextInput
+                    style={styles.detailsInput}
+                    placeholder="Notes for every selected transaction"
+                    placeholderTextColor="#A0A0A0"
+                    value={bulkNotes}
+                    onChangeText={setBulkNotes}
+                    autoFocus
+                  />
+                </View>
+              ) : (
+                <View style={styles.groupForm}>
+                  <ScrollView style={styles.bulkTagList}>
+                    {(availableTags.length > 0 ? availableTags : useCacheStore.getState().tags).map(tag => {
+                      const isSelected = bulkTags.includes(tag);
+                      return (
+                        <TouchableOpacity
+                          key={tag}
+                          style={styles.bulkTagOption}
+                          onPress={() => setBulkTags(isSelected ? bulkTags.filter(t => t !== tag) : [...bulkTags, tag])}
+                        >
+                          <Text style={styles.bulkTagText}>{tag}</Text>
+                          {isSelected && <Feather name="check" size={18} color="#007AFF" />}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+                  <View style={styles.bulkTagButtons}>
+                    <TouchableOpacity 
+                      style={[styles.selectionAction, styles.bulkTagButton, bulkTags.length === 0 && styles.editSaveButtonDisabled]}
+                      onPress={() => runBulkAction({ type: 'addTags', tags: bulkTags })}
+                      disabled={bulkTags.length === 0}
+                    >
+                      <Text style={styles.selectionActionText}>ADD</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={[styles.selectionAction, styles.selectionActionDestructive, styles.bulkTagButton, bulkTags.length === 0 && styles.editSaveButtonDisabled]}
+                      onPress={() => runBulkAction({ type: 'removeTags', tags: bulkTags })}
+                      disabled={bulkTags.length === 0}
+                    >
+                      <Text style={styles.selectionActionText}>REMOVE</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+            </View>
+          </View>
+        </Modal>
+
+        {/* Undo snackbar of the last deletion, in place of the FAB until it's sent */}
+        {pendingDeletionIds.length > 0 && (
+          <View style={styles.undoSnackbar}>
+            <Text style={styles.undoSnackbarText}>
+              {pendingDeletionIds.length === 1 ? 'Transaction deleted' : `${pendingDeletionIds.length} transactions deleted`}
+            </Text>
+            <TouchableOpacity onPress={undoPendingDeletion}>
+              <Text style={styles.undoSnackbarAction}>UNDO</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Floating Action Button - Only show when token exists */}
-        {token && (
+        {token && !isSelectionMode && pendingDeletionIds.length === 0 && (
           <TouchableOpacity 
             style={styles.fab}
             onPress={() => {
@@ -2727,6 +3866,67 @@ export default function App() {
 
   // Account Selection Screen
   if (currentScreen === 'selectAccount') {
+    // Transfers can move money between any accounts, not just physical cash
+    if (accountPickerTarget) {
+      return (
+        <SafeAreaView style={styles.container}>
+          <View style={styles.topBanner}>
+            <View style={styles.settingsHeaderLeft}>
+              <FontAwesome6 name="wallet" size={20} color="#2D7D7A" style={styles.settingsIcon} />
+              <Text style={styles.appName}>{accountPickerTarget === 'transferFrom' ? 'Transfer from' : 'Transfer to'}</Text>
+            </View>
+            <TouchableOpacity 
+              style={styles.settingsButton}
+              onPress={() => {
+                setAccountPickerTarget(null);
+                setCurrentScreen('addTransaction');
+              }}
+            >
+              <FontAwesome6 name="arrow-left" size={20} color="#2D7D7A" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.accountList}>
+            {accounts.map((account) => {
+              const otherAccount = accountPickerTarget === 'transferFrom' ? transferToAccount : transferFromAccount;
+              const isPlaid = account.accountType === 'plaid';
+              
+              return (
+                <TouchableOpacity
+                  key={`${account.accountType}_${account.id}`}
+                  style={[styles.accountItem, isSameAccount(account, otherAccount) && styles.accountItemDisabled]}
+                  disabled={isSameAccount(account, otherAccount)}
+                  onPress={() => {
+                    if (accountPickerTarget === 'transferFrom') {
+                      setTransferFromAccount(account);
+                    } else {
+                      setTransferToAccount(account);
+                    }
+                    setTransferToAmount('');
+                    setAccountPickerTarget(null);
+                    setCurrentScreen('addTransaction');
+                  }}
+                >
+                  <View style={styles.accountIconContainer}>
+                    <Text style={styles.accountIcon}>{account.subtype_name === 'physical cash' ? '💵' : '🏦'}</Text>
+                  </View>
+                  <View style={styles.accountInfo}>
+                    <Text style={styles.accountName}>
+                      {formatAccountSelectionName(account)}
+                    </Text>
+                    <Text style={styles.accountType}>
+                      {isPlaid ? 'Bank' : account.type_name || 'Cash'}
+                      {account.currency ? ` · ${account.currency.toUpperCase()}` : ''}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </SafeAreaView>
+      );
+    }
+    
     return (
       <SafeAreaView style={styles.container}>
         {/* Fixed Top Banner - Same as main screen */}
@@ -3256,9 +4456,15 @@ export default function App() {
               />
             </View>
 
-            {/* Payee Section */}
+            {/* Payee Section - transfers are named after their accounts */}
+            {!isTransferMode && (
             <View style={styles.detailsSection}>
-              <Text style={styles.detailsLabel}>PAYEE</Text>
+              <View style={styles.detailsLabelRow}>
+                <Text style={styles.detailsLabel}>PAYEE</Text>
+                {transactionPayee === receiptSuggestions?.payee?.value && (
+                  <ConfidenceBadge field={receiptSuggestions.payee} />
+                )}
+              </View>
               <TextInput
                 style={styles.detailsInput}
                 placeholder="Enter payee name"
@@ -3267,11 +4473,17 @@ export default function App() {
                 onChangeText={setTransactionPayee}
               />
             </View>
+            )}
 
             {/* Date and Time Section */}
             <View style={styles.detailsRow}>
               <View style={styles.detailsHalfSection}>
-                <Text style={styles.detailsLabel}>DATE</Text>
+                <View style={styles.detailsLabelRow}>
+                  <Text style={styles.detailsLabel}>DATE</Text>
+                  {toLocalDateString(transactionDate) === receiptSuggestions?.date?.value && (
+                    <ConfidenceBadge field={receiptSuggestions.date} />
+                  )}
+                </View>
                 <TouchableOpacity 
                   style={styles.detailsDateButton}
                   onPress={() => {
@@ -3294,7 +4506,12 @@ export default function App() {
               </View>
               {shouldShowTimeField(editingTransaction) && (
                 <View style={styles.detailsHalfSection}>
-                  <Text style={styles.detailsLabel}>TIME</Text>
+                  <View style={styles.detailsLabelRow}>
+                    <Text style={styles.detailsLabel}>TIME</Text>
+                    {`${String(transactionDate.getHours()).padStart(2, '0')}:${String(transactionDate.getMinutes()).padStart(2, '0')}` === receiptSuggestions?.time?.value && (
+                      <ConfidenceBadge field={receiptSuggestions.time} />
+                    )}
+                  </View>
                   <TouchableOpacity 
                     style={styles.detailsDateButton}
                     onPress={() => {
@@ -3347,10 +4564,20 @@ export default function App() {
             )}
           </View>
 
+          {/* Split Section */}
+          {!isTransferMode && renderSplitSection()}
+
           {/* Receipt Section */}
           <View style={styles.detailsSection}>
             <Text style={styles.detailsLabel}>ATTACHMENTS</Text>
             
+            {isReadingReceipt && (
+              <View style={styles.receiptReadingRow}>
+                <ActivityIndicator size="small" color="#007AFF" />
+                <Text style={styles.receiptReadingText}>Reading receipt...</Text>
+              </View>
+            )}
+            
             {/* Display existing attachments */}
             {transactionAttachments.length > 0 && (
               <View style={styles.attachmentsList}>
@@ -3360,16 +4587,17 @@ export default function App() {
                       onPress={() => openReceiptGallery(index)}
                       style={styles.thumbnailContainer}
                     >
-                      <Image source={{ uri: attachment.uri }} style={styles.attachmentThumbnail} />
+                      <AttachmentThumbnail attachment={attachment} style={styles.attachmentThumbnail} />
                       <View style={styles.thumbnailOverlay}>
                         <Text style={styles.thumbnailIcon}>👁️</Text>
                       </View>
                     </TouchableOpacity>
                     <View style={styles.attachmentInfo}>
                       <Text style={styles.attachmentName} numberOfLines={1}>
-                        Receipt {index + 1}
+                        {getAttachmentKind(attachment.mimeType) === 'image' ? `Receipt ${index + 1}` : attachment.fileName}
                       </Text>
                       <Text style={styles.attachmentSize}>
+                        {attachment.pages?.length > 1 ? `${attachment.pages.length} pages · ` : ''}
                         {attachment.size ? `${Math.round(attachment.size / 1024)}KB` : 'Image file'}
                       </Text>
                       <Text style={styles.attachmentHint}>Tap to view</Text>
@@ -3812,6 +5040,9 @@ export default function App() {
             </TouchableOpacity>
           </View>
 
+          {/* Split Section - not available for grouped or recurring transactions */}
+          {!isGroupedTransaction && !isRecurringTransaction && renderSplitSection()}
+
           {/* Tags Section - Field 7 */}
           <View style={styles.detailsSection}>
             <Text style={styles.detailsLabel}>TAGS</Text>
@@ -3854,16 +5085,17 @@ export default function App() {
                       onPress={() => openReceiptGallery(index)}
                       style={styles.thumbnailContainer}
                     >
-                      <Image source={{ uri: attachment.uri }} style={styles.attachmentThumbnail} />
+                      <AttachmentThumbnail attachment={attachment} style={styles.attachmentThumbnail} />
                       <View style={styles.thumbnailOverlay}>
                         <Text style={styles.thumbnailIcon}>👁️</Text>
                       </View>
                     </TouchableOpacity>
                     <View style={styles.attachmentInfo}>
                       <Text style={styles.attachmentName} numberOfLines={1}>
-                        Receipt {index + 1}
+                        {getAttachmentKind(attachment.mimeType) === 'image' ? `Receipt ${index + 1}` : attachment.fileName}
                       </Text>
                       <Text style={styles.attachmentSize}>
+                        {attachment.pages?.length > 1 ? `${attachment.pages.length} pages · ` : ''}
                         {attachment.size ? `${Math.round(attachment.size / 1024)}KB` : 'Image file'}
                       </Text>
                       <Text style={styles.attachmentHint}>Tap to view</Text>
@@ -3889,6 +5121,27 @@ export default function App() {
             </TouchableOpacity>
           </View>
 
+          {/* Reimbursement Section */}
+          <View style={styles.detailsSection}>
+            <Text style={styles.detailsLabel}>REIMBURSEMENT</Text>
+            <View style={styles.reimbursementOptions}>
+              {([null, ...Object.keys(REIMBURSEMENT_STATUS_LABELS)] as (ReimbursementStatus | null)[]).map(status => {
+                const isSelected = (reimbursementStatuses[String(editingTransaction?.id)] || null) === status;
+                return (
+                  <TouchableOpacity
+                    key={status || 'none'}
+                    style={[styles.reimbursementOption, isSelected && styles.reimbursementOptionSelected]}
+                    onPress={() => !isSelected && updateReimbursementStatus(status)}
+                  >
+                    <Text style={[styles.reimbursementOptionText, isSelected && styles.reimbursementOptionTextSelected]}>
+                      {status ? REIMBURSEMENT_STATUS_LABELS[status] : 'Not Reimbursable'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
           {/* Save Button */}
           <View style={styles.detailsSection}>
             <TouchableOpacity 
@@ -3906,6 +5159,37 @@ export default function App() {
                 SAVE CHANGES
               </Text>
             </TouchableOpacity>
+            
+            {/* Groups can be dissolved back into their transactions */}
+            {editingTransaction?.is_group && (
+              <TouchableOpacity 
+                style={styles.ungroupButton}
+                onPress={() => ungroupTransactions([editingTransaction], () => {
+                  resetTransactionForm();
+                  setIsEditMode(false);
+                  setEditingTransaction(null);
+                  setCurrentScreen('transactions');
+                })}
+              >
+                <Text style={styles.ungroupButtonText}>UNGROUP</Text>
+              </TouchableOpacity>
+            )}
+            
+            {editingTransaction && getDeletionBlocker(editingTransaction) === null && (
+              <TouchableOpacity 
+                style={styles.ungroupButton}
+                onPress={() => {
+                  if (scheduleDeletion([editingTransaction])) {
+                    resetTransactionForm();
+                    setIsEditMode(false);
+                    setEditingTransaction(null);
+                    setCurrentScreen('transactions');
+                  }
+                }}
+              >
+                <Text style={styles.ungroupButtonText}>DELETE</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </ScrollView>
 
@@ -4000,6 +5284,12 @@ export default function App() {
 
   // Add Transaction Screen
   if (currentScreen === 'addTransaction') {
+    const isSaveDisabled = isTransferMode
+      ? !amount || amount === '0' || !transferFromAccount || !transferToAccount
+      : !amount || amount === '0' || !selectedAccount || !selectedCategory;
+    const amountCurrency = isTransferMode ? transferFromAccount?.currency : selectedAccountData?.currency;
+    const isCrossCurrency = isTransferMode && isCrossCurrencyTransfer(transferFromAccount, transferToAccount);
+    
     return (
       <SafeAreaView style={styles.container}>
         {/* Fixed Top Banner - Same as main screen */}
@@ -4010,17 +5300,17 @@ export default function App() {
             <TouchableOpacity 
               style={[
                 styles.addTransactionSaveButton,
-                (!amount || amount === '0' || !selectedAccount || !selectedCategory) && styles.addTransactionSaveButtonDisabled
+                isSaveDisabled && styles.addTransactionSaveButtonDisabled
               ]}
-              onPress={saveTransaction}
-              disabled={isLoading || !amount || amount === '0' || !selectedAccount || !selectedCategory}
+              onPress={isTransferMode ? saveTransfer : saveTransaction}
+              disabled={isLoading || isSaveDisabled}
             >
               {isLoading ? (
                 <ActivityIndicator size="small" color="white" />
               ) : (
                 <Text style={[
                   styles.addTransactionSaveText,
-                  (!amount || amount === '0' || !selectedAccount || !selectedCategory) && styles.addTransactionSaveTextDisabled
+                  isSaveDisabled && styles.addTransactionSaveTextDisabled
                 ]}>✓</Text>
               )}
             </TouchableOpacity>
@@ -4036,27 +5326,47 @@ export default function App() {
         {/* Content Area with Dynamic Background */}
         <View style={[
           styles.addTransactionContent,
-          selectedCategoryData?.is_income ? styles.incomeBackground : styles.expenseBackground
+          isTransferMode ? styles.transferBackground :
+            selectedCategoryData?.is_income ? styles.incomeBackground : styles.expenseBackground
         ]}>
-          {/* Transaction Type Banner */}
-          <View style={[
-            styles.transactionTypeBanner,
-            selectedCategoryData?.is_income ? styles.incomeBanner : styles.expenseBanner
-          ]}>
-            <Text style={styles.transactionTypeBannerText}>
-              {selectedCategoryData?.is_income ? 'INCOME' : 'EXPENSE'}
-            </Text>
+          {/* Transaction Type Banner - expense/income follows the category, transfer is a mode */}
+          <View style={styles.transactionModeRow}>
+            <TouchableOpacity
+              style={[
+                styles.transactionTypeBanner,
+                styles.transactionModeOption,
+                isTransferMode ? styles.transactionModeInactive :
+                  selectedCategoryData?.is_income ? styles.incomeBanner : styles.expenseBanner
+              ]}
+              onPress={() => setIsTransferMode(false)}
+            >
+              <Text style={styles.transactionTypeBannerText}>
+                {selectedCategoryData?.is_income ? 'INCOME' : 'EXPENSE'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.transactionTypeBanner,
+                styles.transactionModeOption,
+                isTransferMode ? styles.transferBanner : styles.transactionModeInactive
+              ]}
+              onPress={startTransferMode}
+            >
+              <Text style={styles.transactionTypeBannerText}>TRANSFER</Text>
+            </TouchableOpacity>
           </View>
 
           {/* Amount Display */}
           <View style={styles.amountSection}>
-            <Text style={[styles.signSymbol, selectedCategoryData?.is_income ? styles.positiveSign : styles.negativeSign]}>
-              {selectedCategoryData?.is_income ? '+' : '-'}
-            </Text>
+            {!isTransferMode && (
+              <Text style={[styles.signSymbol, selectedCategoryData?.is_income ? styles.positiveSign : styles.negativeSign]}>
+                {selectedCategoryData?.is_income ? '+' : '-'}
+              </Text>
+            )}
             <Text style={styles.currencySymbol}>
-              {selectedAccountData?.currency === 'eur' ? '€' : 
-               selectedAccountData?.currency === 'mad' ? 'MAD' : 
-               selectedAccountData?.currency === 'usd' ? '$' : '$'}
+              {amountCurrency === 'eur' ? '€' : 
+               amountCurrency === 'mad' ? 'MAD' : 
+               amountCurrency === 'usd' ? '$' : '$'}
             </Text>
             <Text style={styles.amountText}>{amount}</Text>
             <TouchableOpacity 
@@ -4066,8 +5376,68 @@ export default function App() {
               <Text style={styles.detailsButtonText}>→</Text>
             </TouchableOpacity>
           </View>
+          {amount === receiptSuggestions?.amount?.value && (
+            <View style={styles.receiptSuggestionRow}>
+              <ConfidenceBadge field={receiptSuggestions.amount} />
+            </View>
+          )}
 
-          {/* Account and Category Cards */}
+          {/* From and To Account Cards (transfer mode) */}
+          {isTransferMode ? (
+          <View style={styles.cardSection}>
+            <TouchableOpacity 
+              style={[styles.card, !transferFromAccount && styles.cardRequired]}
+              onPress={() => {
+                setAccountPickerTarget('transferFrom');
+                setCurrentScreen('selectAccount');
+              }}
+            >
+              <Text style={[styles.cardLabel, { textAlign: 'center' }]}>FROM</Text>
+              <Text style={[
+                styles.cardValue,
+                !transferFromAccount && styles.cardValueRequired,
+                { textAlign: 'center' }
+              ]}>
+                {transferFromAccount ? formatAccountSelectionName(transferFromAccount) : '🏦 Pick account'}
+              </Text>
+            </TouchableOpacity>
+            
+            <TouchableOpacity 
+              style={[styles.card, !transferToAccount && styles.cardRequired]}
+              onPress={() => {
+                setAccountPickerTarget('transferTo');
+                setCurrentScreen('selectAccount');
+              }}
+            >
+              <Text style={[styles.cardLabel, { textAlign: 'center' }]}>TO</Text>
+              <Text style={[
+                styles.cardValue,
+                !transferToAccount && styles.cardValueRequired,
+                { textAlign: 'center' }
+              ]}>
+                {transferToAccount ? formatAccountSelectionName(transferToAccount) : '👛 Pick account'}
+              </Text>
+            </TouchableOpacity>
+            
+            {/* The other side of a cross-currency transfer has its own amount */}
+            {isCrossCurrency && (
+              <View style={styles.card}>
+                <Text style={[styles.cardLabel, { textAlign: 'center' }]}>
+                  AMOUNT RECEIVED ({transferToAccount.currency.toUpperCase()})
+                </Text>
+                <TextInput
+                  style={[styles.cardValue, { textAlign: 'center' }]}
+                  value={transferToAmount}
+                  onChangeText={(text) => setTransferToAmount(text.replace(',', '.').replace(/[^0-9.]/g, ''))}
+                  placeholder="0.00"
+                  placeholderTextColor="#A0A0A0"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            )}
+          </View>
+          ) : (
+          /* Account and Category Cards */
           <View style={styles.cardSection}>
             <TouchableOpacity 
               style={[
@@ -4104,6 +5474,7 @@ export default function App() {
               </Text>
             </TouchableOpacity>
           </View>
+          )}
 
           {/* Numeric Keypad */}
           <View style={styles.keypad}>
@@ -4385,50 +5756,179 @@ export default function App() {
                   </View>
                 </TouchableOpacity>
 
-                <TouchableOpacity
-                  style={styles.filterItem}
-                  onPress={() => setShowOnlyRecurring(!showOnlyRecurring)}
-                >
-                  <View style={styles.filterItemContent}>
-                    <View style={styles.filterItemLeft}>
-                      <View style={[
-                        styles.checkbox,
-                        showOnlyRecurring && styles.checkboxSelected
-                      ]}>
-                        {showOnlyRecurring && (
-                          <Text style={styles.checkmark}>✓</Text>
-                        )}
-                      </View>
-                      <MaterialCommunityIcons name="repeat" size={20} color="#666" style={styles.filterAccountIcon} />
-                      <Text style={styles.filterItemText}>Only recurring transactions</Text>
-                    </View>
-                  </View>
-                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.filterItem}
+                  onPress={() => setShowOnlyRecurring(!showOnlyRecurring)}
+                >
+                  <View style={styles.filterItemContent}>
+                    <View style={styles.filterItemLeft}>
+                      <View style={[
+                        styles.checkbox,
+                        showOnlyRecurring && styles.checkboxSelected
+                      ]}>
+                        {showOnlyRecurring && (
+                          <Text style={styles.checkmark}>✓</Text>
+                        )}
+                      </View>
+                      <MaterialCommunityIcons name="repeat" size={20} color="#666" style={styles.filterAccountIcon} />
+                      <Text style={styles.filterItemText}>Only recurring transactions</Text>
+                    </View>
+                  </View>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.filterItem}
+                  onPress={() => setShowOnlyWithAttachments(!showOnlyWithAttachments)}
+                >
+                  <View style={styles.filterItemContent}>
+                    <View style={styles.filterItemLeft}>
+                      <View style={[
+                        styles.checkbox,
+                        showOnlyWithAttachments && styles.checkboxSelected
+                      ]}>
+                        {showOnlyWithAttachments && (
+                          <Text style={styles.checkmark}>✓</Text>
+                        )}
+                      </View>
+                      <MaterialCommunityIcons name="attachment" size={20} color="#666" style={styles.filterAccountIcon} />
+                      <Text style={styles.filterItemText}>Only transactions with attachments</Text>
+                    </View>
+                  </View>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </ScrollView>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  // Reimbursements Screen
+  if (currentScreen === 'reimbursements') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.topBanner}>
+          <View style={styles.settingsHeaderLeft}>
+            <Feather name="briefcase" size={20} color="#2D7D7A" style={styles.settingsIcon} />
+            <Text style={styles.appName}>Reimbursements</Text>
+          </View>
+          <TouchableOpacity 
+            style={styles.settingsButton}
+            onPress={() => setCurrentScreen('transactions')}
+          >
+            <FontAwesome6 name="arrow-left" size={20} color="#2D7D7A" />
+          </TouchableOpacity>
+        </View>
+        
+        <ReimbursementsScreen
+          transactions={transactions}
+          attachmentCounts={Object.fromEntries(
+            Object.entries(localAttachments).map(([transactionId, attachments]) => [transactionId, attachments.length])
+          )}
+          onOpenTransaction={handleTransactionPress}
+          onReimbursementsChanged={() => {
+            loadReimbursementStatuses();
+            fetchTransactions(); // Pick up the Reimbursed tag
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  // Receipt Library Screen
+  if (currentScreen === 'receiptLibrary') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.topBanner}>
+          <View style={styles.settingsHeaderLeft}>
+            <Feather name="image" size={20} color="#2D7D7A" style={styles.settingsIcon} />
+            <Text style={styles.appName}>Receipts</Text>
+          </View>
+          <TouchableOpacity 
+            style={styles.settingsButton}
+            onPress={() => setCurrentScreen('transactions')}
+          >
+            <FontAwesome6 name="arrow-left" size={20} color="#2D7D7A" />
+          </TouchableOpacity>
+        </View>
+        
+        <ReceiptLibraryScreen
+          attachments={localAttachments}
+          transactions={transactions}
+          onOpenTransaction={handleTransactionPress}
+          onOpenInbox={() => setCurrentScreen('receiptInbox')}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  // Receipt Inbox Screen
+  if (currentScreen === 'receiptInbox') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.topBanner}>
+          <View style={styles.settingsHeaderLeft}>
+            <Feather name="inbox" size={20} color="#2D7D7A" style={styles.settingsIcon} />
+            <Text style={styles.appName}>Receipt Inbox</Text>
+          </View>
+          <TouchableOpacity 
+            style={styles.settingsButton}
+            onPress={() => setCurrentScreen('transactions')}
+          >
+            <FontAwesome6 name="arrow-left" size={20} color="#2D7D7A" />
+          </TouchableOpacity>
+        </View>
+        
+        <ReceiptInboxScreen
+          transactions={transactions}
+          attachedTransactionIds={attachedTransactionIds}
+          onReceiptsChanged={loadLocalAttachments}
+        />
+      </SafeAreaView>
+    );
+  }
 
-                <TouchableOpacity
-                  style={styles.filterItem}
-                  onPress={() => setShowOnlyWithAttachments(!showOnlyWithAttachments)}
-                >
-                  <View style={styles.filterItemContent}>
-                    <View style={styles.filterItemLeft}>
-                      <View style={[
-                        styles.checkbox,
-                        showOnlyWithAttachments && styles.checkboxSelected
-                      ]}>
-                        {showOnlyWithAttachments && (
-                          <Text style={styles.checkmark}>✓</Text>
-                        )}
-                      </View>
-                      <MaterialCommunityIcons name="attachment" size={20} color="#666" style={styles.filterAccountIcon} />
-                      <Text style={styles.filterItemText}>Only transactions with attachments</Text>
-                    </View>
-                  </View>
-                </TouchableOpacity>
-              </>
-            )}
+  // Storage Screen
+  if (currentScreen === 'storage') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.topBanner}>
+          <View style={styles.settingsHeaderLeft}>
+            <Feather name="hard-drive" size={20} color="#2D7D7A" style={styles.settingsIcon} />
+            <Text style={styles.appName}>Storage</Text>
           </View>
-        </ScrollView>
-        )}
+          <TouchableOpacity 
+            style={styles.settingsButton}
+            onPress={() => setCurrentScreen('settings')}
+          >
+            <FontAwesome6 name="arrow-left" size={20} color="#2D7D7A" />
+          </TouchableOpacity>
+        </View>
+        
+        <StorageScreen onAttachmentsChanged={loadLocalAttachments} />
+      </SafeAreaView>
+    );
+  }
+
+  // Receipt Export Screen
+  if (currentScreen === 'receiptExport') {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.topBanner}>
+          <View style={styles.settingsHeaderLeft}>
+            <Feather name="archive" size={20} color="#2D7D7A" style={styles.settingsIcon} />
+            <Text style={styles.appName}>Export Receipts</Text>
+          </View>
+          <TouchableOpacity 
+            style={styles.settingsButton}
+            onPress={() => setCurrentScreen('settings')}
+          >
+            <FontAwesome6 name="arrow-left" size={20} color="#2D7D7A" />
+          </TouchableOpacity>
+        </View>
+        
+        <ReceiptExportScreen />
       </SafeAreaView>
     );
   }
@@ -4460,6 +5960,12 @@ export default function App() {
             // Redirect to transactions screen
             setCurrentScreen('transactions');
           }}
+          onProfileSwitched={() => {
+            handleProfileSwitched();
+            setCurrentScreen('transactions');
+          }}
+          onOpenStorage={() => setCurrentScreen('storage')}
+          onOpenReceiptExport={() => setCurrentScreen('receiptExport')}
           accounts={accounts}
         />
       </SafeAreaView>
@@ -4547,6 +6053,46 @@ const styles = StyleSheet.create({
     padding: 8,
     marginRight: 4,
   },
+  inboxBadge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: '#FF3B30',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  inboxBadgeText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  inboxMatchBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#E8F5E9',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#34C759',
+  },
+  inboxMatchText: {
+    flex: 1,
+    color: '#2E7D32',
+    fontSize: 14,
+  },
+  inboxMatchAction: {
+    color: '#2E7D32',
+    fontSize: 14,
+    fontWeight: '700',
+    marginLeft: 10,
+  },
   
   // Placeholder Styles
   placeholderContainer: {
@@ -4821,6 +6367,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  listFooterLoading: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  listFooterText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#666',
+  },
   transactionsList: {
     flex: 1,
     marginTop: 10,
@@ -4833,6 +6390,92 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#666666', // Neutral gray for base
   },
+  transactionCardSelected: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  selectionBar: {
+    marginHorizontal: 20,
+    marginTop: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: '#E8F1FF',
+    gap: 10,
+  },
+  selectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  selectAllText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  selectionActions: {
+    gap: 8,
+  },
+  selectionActionDestructive: {
+    backgroundColor: '#FF3B30',
+  },
+  selectionProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  selectionProgressText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  bulkTagList: {
+    maxHeight: 300,
+  },
+  bulkTagOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  bulkTagText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  bulkTagButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  bulkTagButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  selectionCount: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  selectionAction: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#007AFF',
+  },
+  selectionActionText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  groupForm: {
+    padding: 20,
+  },
+  groupFormLabel: {
+    marginTop: 16,
+  },
   transactionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -4936,6 +6579,9 @@ const styles = StyleSheet.create({
   incomeBackground: {
     backgroundColor: '#E5F5E5', // Light green for income
   },
+  transferBackground: {
+    backgroundColor: '#E5F0FF', // Light blue for transfers
+  },
   walletHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -5018,6 +6664,22 @@ const styles = StyleSheet.create({
   incomeBanner: {
     backgroundColor: '#F0FFF4', // Light green background
   },
+  transactionModeRow: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    gap: 8,
+  },
+  transactionModeOption: {
+    flex: 1,
+    marginHorizontal: 0,
+  },
+  transactionModeInactive: {
+    backgroundColor: 'rgba(0,0,0,0.05)',
+    opacity: 0.6,
+  },
+  transferBanner: {
+    backgroundColor: '#F0F8FF', // Light blue background
+  },
   transactionTypeBannerText: {
     fontSize: 14,
     fontWeight: '600',
@@ -5547,6 +7209,25 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     fontWeight: '600',
   },
+  detailsLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  receiptSuggestionRow: {
+    alignItems: 'center',
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  receiptReadingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  receiptReadingText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#666',
+  },
   detailsInput: {
     fontSize: 16,
     color: '#333',
@@ -5560,6 +7241,29 @@ const styles = StyleSheet.create({
   addTagButton: {
     alignSelf: 'flex-start',
   },
+  reimbursementOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reimbursementOption: {
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: '#4A90E2',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  reimbursementOptionSelected: {
+    backgroundColor: '#4A90E2',
+  },
+  reimbursementOptionText: {
+    fontSize: 14,
+    color: '#4A90E2',
+  },
+  reimbursementOptionTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
   addTagText: {
     fontSize: 16,
     color: '#007AFF',
@@ -6084,6 +7788,56 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 20,
   },
+  ungroupButton: {
+    paddingVertical: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  ungroupButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  swipeDeleteAction: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 88,
+    marginLeft: 8,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#FF3B30',
+  },
+  swipeDeleteText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  undoSnackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 80, // Same height as the FAB it replaces
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#333',
+  },
+  undoSnackbarText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  undoSnackbarAction: {
+    color: '#4FC3F7',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   editSaveButtonDisabled: {
     backgroundColor: '#CCCCCC',
   },
@@ -7,9 +7,21 @@ import {
   Modal,
   Alert,
   ActivityIndicator,
+  Image,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { ReceiptCapture } from './ReceiptCapture';
 import { SecureStorage } from '../utils/storage';
+import {
+  storeAttachmentFile,
+  storeDocumentFile,
+  storeAttachmentPages,
+  deleteAttachmentFiles,
+  getAttachmentKind,
+  StoredAttachmentFile,
+} from '../utils/attachmentFiles';
+import { useAppStore } from '../store/appStore';
 
 interface AttachmentModalProps {
   visible: boolean;
@@ -25,6 +37,8 @@ export default function AttachmentModal({
   transactionId
 }: AttachmentModalProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const attachmentQuality = useAppStore((state) => state.settings.attachmentQuality);
 
   const requestPermissions = async () => {
     // Request camera permissions
@@ -56,32 +70,67 @@ export default function AttachmentModal({
     return Date.now().toString() + Math.random().toString(36).substr(2, 9);
   };
 
+  const saveAttachment = async (attachmentId: string, fileName: string, storedFile: StoredAttachmentFile) => {
+    const attachment = {
+      id: attachmentId,
+      transactionId: transactionId || 'temp',
+      uri: storedFile.uri,
+      thumbnailUri: storedFile.thumbnailUri,
+      pages: storedFile.pages,
+      fileName,
+      mimeType: storedFile.mimeType,
+      size: storedFile.size,
+      dateAdded: new Date().toISOString(),
+    };
+
+    // If we have a transaction ID, save to storage immediately
+    if (transactionId) {
+      try {
+        await SecureStorage.addTransactionAttachment(attachment);
+      } catch (error) {
+        deleteAttachmentFiles(attachment);
+        Alert.alert('Error', 'Failed to save attachment');
+        return;
+      }
+    }
+
+    onAttachmentAdded(attachment);
+    onClose();
+  };
+
   const processImageResult = async (result: ImagePicker.ImagePickerResult) => {
     if (!result.canceled && result.assets && result.assets.length > 0) {
       const asset = result.assets[0];
+      const attachmentId = generateAttachmentId();
       
-      const attachment = {
-        id: generateAttachmentId(),
-        transactionId: transactionId || 'temp',
-        uri: asset.uri,
-        fileName: asset.fileName || `receipt_${Date.now()}.jpg`,
-        mimeType: asset.mimeType || 'image/jpeg',
-        size: asset.fileSize || 0,
-        dateAdded: new Date().toISOString(),
-      };
-
-      // If we have a transaction ID, save to storage immediately
-      if (transactionId) {
-        try {
-          await SecureStorage.addTransactionAttachment(attachment);
-        } catch (error) {
-          Alert.alert('Error', 'Failed to save attachment');
-          return;
-        }
-      }
+      // The picker's URI is in a cache the OS may purge, so keep our own copy
+      const storedFile = await storeAttachmentFile(asset.uri, attachmentId, {
+        quality: attachmentQuality,
+        width: asset.width,
+        height: asset.height,
+      });
+      
+      await saveAttachment(attachmentId, asset.fileName || `receipt_${Date.now()}.jpg`, storedFile);
+    }
+  };
 
-      onAttachmentAdded(attachment);
-      onClose();
+  const processDocumentResult = async (result: DocumentPicker.DocumentPickerResult) => {
+    if (!result.canceled && result.assets && result.assets.length > 0) {
+      const asset = result.assets[0];
+      const attachmentId = generateAttachmentId();
+      const mimeType = asset.mimeType || (asset.name.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'application/octet-stream');
+      
+      // Photos picked as files are compressed like any other image; documents are kept as-is
+      let storedFile;
+      if (getAttachmentKind(mimeType) === 'image') {
+        // The document picker doesn't report image dimensions, which the quality preset needs to resize
+        const { width, height } = await Image.getSize(asset.uri);
+        storedFile = await storeAttachmentFile(asset.uri, attachmentId, { quality: attachmentQuality, width, height });
+      } else {
+        storedFile = await storeDocumentFile(asset.uri, attachmentId, { fileName: asset.name, mimeType });
+      }
+      
+      await saveAttachment(attachmentId, asset.name, storedFile);
     }
   };
 
@@ -97,7 +146,7 @@ export default function AttachmentModal({
       const result = await ImagePicker.launchCameraAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true, // Enable simple cropping
-        quality: 0.8,
+        quality: 1, // Compressed when copied into app storage
         allowsMultipleSelection: false,
         presentationStyle: ImagePicker.UIImagePickerPresentationStyle.FULL_SCREEN, // Back to full screen
       });
@@ -122,7 +171,7 @@ export default function AttachmentModal({
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true, // Enable simple cropping
-        quality: 0.8,
+        quality: 1, // Compressed when copied into app storage
         allowsMultipleSelection: false,
         presentationStyle: ImagePicker.UIImagePickerPresentationStyle.FULL_SCREEN, // Back to full screen
       });
@@ -135,6 +184,35 @@ export default function AttachmentModal({
     }
   };
 
+  // Pages scanned with the document scanner are saved together as one attachment
+  const handleScannedPages = async (imageUris: string[]) => {
+    try {
+      const attachmentId = generateAttachmentId();
+      const storedFile = await storeAttachmentPages(imageUris, attachmentId, { quality: attachmentQuality });
+      setShowScanner(false);
+      await saveAttachment(attachmentId, `receipt_${Date.now()}.jpg`, storedFile);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save scanned receipt');
+    }
+  };
+
+  const pickDocument = async () => {
+    setIsLoading(true);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*', // PDFs, images and other documents
+        copyToCacheDirectory: true,
+        multiple: false,
+      });
+
+      await processDocumentResult(result);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to attach document');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <Modal
       visible={visible}
@@ -145,7 +223,7 @@ export default function AttachmentModal({
       <View style={styles.overlay}>
         <View style={styles.modal}>
           <Text style={styles.title}>Add Receipt</Text>
-          <Text style={styles.subtitle}>Choose how to add your receipt image</Text>
+          <Text style={styles.subtitle}>Choose how to add your receipt or invoice</Text>
 
           {isLoading ? (
             <View style={styles.loadingContainer}>
@@ -154,6 +232,11 @@ export default function AttachmentModal({
             </View>
           ) : (
             <View style={styles.buttonContainer}>
+              <TouchableOpacity style={styles.button} onPress={() => setShowScanner(true)}>
+                <Text style={styles.buttonIcon}>🧾</Text>
+                <Text style={styles.buttonText}>Scan Receipt (multi-page)</Text>
+              </TouchableOpacity>
+
               <TouchableOpacity style={styles.button} onPress={takePhoto}>
                 <Text style={styles.buttonIcon}>📷</Text>
                 <Text style={styles.buttonText}>Take Photo</Text>
@@ -163,6 +246,11 @@ export default function AttachmentModal({
                 <Text style={styles.buttonIcon}>🖼️</Text>
                 <Text style={styles.buttonText}>Choose from Gallery</Text>
               </TouchableOpacity>
+
+              <TouchableOpacity style={styles.button} onPress={pickDocument}>
+                <Text style={styles.buttonIcon}>📄</Text>
+                <Text style={styles.buttonText}>Choose Document (PDF)</Text>
+              </TouchableOpacity>
             </View>
           )}
 
@@ -171,6 +259,17 @@ export default function AttachmentModal({
           </TouchableOpacity>
         </View>
       </View>
+
+      <Modal
+        visible={showScanner}
+        animationType="slide"
+        onRequestClose={() => setShowScanner(false)}
+      >
+        <ReceiptCapture
+          onCapture={handleScannedPages}
+          onCancel={() => setShowScanner(false)}
+        />
+      </Modal>
     </Modal>
   );
 }
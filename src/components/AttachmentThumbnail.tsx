@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text, Image, StyleSheet, StyleProp, ImageStyle } from 'react-native';
+import { getAttachmentKind } from '../utils/attachmentFiles';
+
+interface AttachmentThumbnailProps {
+  attachment: {
+    uri: string;
+    thumbnailUri?: string;
+    mimeType?: string;
+    fileName?: string;
+  };
+  style?: StyleProp<ImageStyle>;
+}
+
+/**
+ * Small preview of an attachment: its thumbnail when there is one, otherwise a document icon
+ * with the file extension
+ */
+export const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ attachment, style }) => {
+  const kind = getAttachmentKind(attachment.mimeType);
+  const previewUri = attachment.thumbnailUri || (kind === 'image' ? attachment.uri : null);
+
+  if (previewUri) {
+    return <Image source={{ uri: previewUri }} style={style} />;
+  }
+
+  const extension = attachment.fileName?.includes('.') ? attachment.fileName.split('.').pop()!.toUpperCase() : 'FILE';
+  return (
+    <View style={[style, styles.placeholder]}>
+      <Text style={styles.icon}>📄</Text>
+      <Text style={styles.extension} numberOfLines={1}>{kind === 'pdf' ? 'PDF' : extension}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  placeholder: {
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  icon: {
+    fontSize: 20,
+  },
+  extension: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, FlatList } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+export interface PickableCategory {
+  id: number;
+  name: string;
+  is_group?: boolean;
+}
+
+interface CategoryPickerModalProps {
+  visible: boolean;
+  title: string;
+  categories: PickableCategory[];
+  selectedId?: number | null;
+  onSelect: (category: PickableCategory) => void;
+  onClose: () => void;
+}
+
+export const CategoryPickerModal: React.FC<CategoryPickerModalProps> = ({
+  visible,
+  title,
+  categories,
+  selectedId,
+  onSelect,
+  onClose,
+}) => {
+  // Transactions are categorized with leaf categories, not category groups
+  const selectableCategories = categories.filter((category) => !category.is_group);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+        <FlatList
+          data={selectableCategories}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={({ item }) => (
+            <TouchableOpacity style={styles.option} onPress={() => onSelect(item)}>
+              <Text style={styles.optionText}>{item.name}</Text>
+              {item.id === selectedId && <Ionicons name="checkmark" size={20} color="#007AFF" />}
+            </TouchableOpacity>
+          )}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cancel: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333',
+  },
+});
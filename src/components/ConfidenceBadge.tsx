@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ReceiptField } from '../types';
+import { getConfidenceLevel } from '../services/receiptParser';
+
+interface ConfidenceBadgeProps {
+  field?: ReceiptField<string>;
+}
+
+const LEVEL_COLORS = {
+  high: '#34C759',
+  medium: '#FF9500',
+  low: '#FF3B30',
+};
+
+const LEVEL_LABELS = {
+  high: 'From receipt',
+  medium: 'Check value',
+  low: 'Low confidence',
+};
+
+/**
+ * Marks a form value that was read from a receipt, coloured by how confident the parser was
+ */
+export const ConfidenceBadge: React.FC<ConfidenceBadgeProps> = ({ field }) => {
+  if (!field) {
+    return null;
+  }
+
+  const level = getConfidenceLevel(field.confidence);
+  return (
+    <View style={[styles.badge, { borderColor: LEVEL_COLORS[level] }]}>
+      <View style={[styles.dot, { backgroundColor: LEVEL_COLORS[level] }]} />
+      <Text style={[styles.text, { color: LEVEL_COLORS[level] }]}>
+        {LEVEL_LABELS[level]} · {Math.round(field.confidence * 100)}%
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 4,
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { View, Image, StyleSheet, PanResponder, PanResponderInstance, LayoutChangeEvent } from 'react-native';
+import Svg, { Polygon } from 'react-native-svg';
+import { DocumentCorners } from '../types';
+
+interface DocumentCornerEditorProps {
+  imageUri: string;
+  imageWidth: number;
+  imageHeight: number;
+  corners: DocumentCorners;
+  onChange: (corners: DocumentCorners) => void;
+}
+
+type CornerName = keyof DocumentCorners;
+
+const CORNER_NAMES: CornerName[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+const HANDLE_SIZE = 36;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Shows the captured photo with the detected receipt outline and lets the user drag each corner
+ */
+export const DocumentCornerEditor: React.FC<DocumentCornerEditorProps> = ({
+  imageUri,
+  imageWidth,
+  imageHeight,
+  corners,
+  onChange,
+}) => {
+  const [container, setContainer] = useState({ width: 0, height: 0 });
+
+  // The image is drawn with "contain", so work out where it actually sits in the container
+  const scale = Math.min(container.width / imageWidth, container.height / imageHeight) || 0;
+  const frame = {
+    width: imageWidth * scale,
+    height: imageHeight * scale,
+    left: (container.width - imageWidth * scale) / 2,
+    top: (container.height - imageHeight * scale) / 2,
+  };
+
+  // Pan responders are created once, so they read the latest values through refs
+  const cornersRef = useRef(corners);
+  const frameRef = useRef(frame);
+  const onChangeRef = useRef(onChange);
+  cornersRef.current = corners;
+  frameRef.current = frame;
+  onChangeRef.current = onChange;
+
+  const dragStart = useRef(corners.topLeft);
+  const responders = useRef<Record<CornerName, PanResponderInstance> | null>(null);
+  if (!responders.current) {
+    responders.current = {} as Record<CornerName, PanResponderInstance>;
+    CORNER_NAMES.forEach((name) => {
+      responders.current![name] = PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: () => {
+          dragStart.current = cornersRef.current[name];
+        },
+        onPanResponderMove: (_, gesture) => {
+          const { width, height } = frameRef.current;
+          if (!width || !height) return;
+          onChangeRef.current({
+            ...cornersRef.current,
+            [name]: {
+              x: clamp(dragStart.current.x + gesture.dx / width),
+              y: clamp(dragStart.current.y + gesture.dy / height),
+            },
+          });
+        },
+      });
+    });
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setContainer({ width, height });
+  };
+
+  const points = CORNER_NAMES.map((name) => `${corners[name].x * frame.width},${corners[name].y * frame.height}`).join(' ');
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      <Image source={{ uri: imageUri }} style={styles.image} />
+      {scale > 0 && (
+        <View style={[styles.frame, frame]}>
+          <Svg width={frame.width} height={frame.height} style={StyleSheet.absoluteFill}>
+            <Polygon points={points} fill="rgba(0, 122, 255, 0.15)" stroke="#007AFF" strokeWidth={2} />
+          </Svg>
+          {CORNER_NAMES.map((name) => (
+            <View
+              key={name}
+              style={[
+                styles.handle,
+                {
+                  left: corners[name].x * frame.width - HANDLE_SIZE / 2,
+                  top: corners[name].y * frame.height - HANDLE_SIZE / 2,
+                },
+              ]}
+              {...responders.current![name].panHandlers}
+            >
+              <View style={styles.handleInner} />
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  image: {
+    flex: 1,
+    resizeMode: 'contain',
+  },
+  frame: {
+    position: 'absolute',
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: 'rgba(0, 122, 255, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  handleInner: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: 'white',
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+});
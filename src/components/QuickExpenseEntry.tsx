@@ -12,22 +12,30 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAppStore } from '../store/appStore';
-import { NewTransaction } from '../types';
+import { NewTransaction, ReceiptSuggestions } from '../types';
+import { ConfidenceBadge } from './ConfidenceBadge';
 
 interface QuickExpenseEntryProps {
   onSubmit: (transaction: NewTransaction) => void;
   onCancel: () => void;
   initialData?: Partial<NewTransaction>;
+  suggestions?: ReceiptSuggestions; // Values read from the attached receipt
 }
 
 export const QuickExpenseEntry: React.FC<QuickExpenseEntryProps> = ({
   onSubmit,
   onCancel,
   initialData,
+  suggestions,
 }) => {
   const { categories, settings } = useAppStore();
-  const [amount, setAmount] = useState(initialData?.amount || '');
-  const [payee, setPayee] = useState(initialData?.payee || '');
+  const [amount, setAmount] = useState(initialData?.amount || suggestions?.amount?.value || '');
+  const [payee, setPayee] = useState(initialData?.payee || suggestions?.payee?.value || '');
+  const [date, setDate] = useState(
+    initialData?.date || suggestions?.date?.value || new Date().toISOString().split('T')[0]
+  );
+  // Empty means the budget's primary currency
+  const [currency, setCurrency] = useState(initialData?.currency || suggestions?.currency?.value || '');
   const [notes, setNotes] = useState(initialData?.notes || '');
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | undefined>(
     initialData?.category_id || settings.defaultCategoryId
@@ -47,14 +55,26 @@ export const QuickExpenseEntry: React.FC<QuickExpenseEntryProps> = ({
       return;
     }
 
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD');
+      return;
+    }
+
+    const currencyCode = currency.trim().toLowerCase();
+    if (currencyCode && !/^[a-z]{3}$/.test(currencyCode)) {
+      Alert.alert('Error', 'Please enter a 3-letter currency code, or leave it empty');
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
       const transaction: NewTransaction = {
         amount: numericAmount.toFixed(2),
         payee: payee.trim(),
-        date: new Date().toISOString().split('T')[0], // YYYY-MM-DD format
+        date, // YYYY-MM-DD format
         category_id: selectedCategoryId,
+        currency: currencyCode || undefined,
         notes: notes.trim() || undefined,
         receipt: initialData?.receipt,
       };
@@ -100,9 +120,12 @@ export const QuickExpenseEntry: React.FC<QuickExpenseEntryProps> = ({
         <View style={styles.form}>
           {/* Amount Input */}
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Amount *</Text>
+            <View style={styles.labelRow}>
+              <Text style={styles.label}>Amount *</Text>
+              {amount === suggestions?.amount?.value && <ConfidenceBadge field={suggestions.amount} />}
+            </View>
             <View style={styles.amountInputContainer}>
-              <Text style={styles.currencySymbol}>$</Text>
+              <Text style={styles.currencySymbol}>{currency.trim() ? currency.trim().toUpperCase() : '$'}</Text>
               <TextInput
                 style={styles.amountInput}
                 value={amount}
@@ -116,7 +139,10 @@ export const QuickExpenseEntry: React.FC<QuickExpenseEntryProps> = ({
 
           {/* Payee Input */}
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Payee *</Text>
+            <View style={styles.labelRow}>
+              <Text style={styles.label}>Payee *</Text>
+              {payee === suggestions?.payee?.value && <ConfidenceBadge field={suggestions.payee} />}
+            </View>
             <TextInput
               style={styles.textInput}
               value={payee}
@@ -127,9 +153,45 @@ export const QuickExpenseEntry: React.FC<QuickExpenseEntryProps> = ({
             />
           </View>
 
+          {/* Date Input */}
+          <View style={styles.inputGroup}>
+            <View style={styles.labelRow}>
+              <Text style={styles.label}>Date</Text>
+              {date === suggestions?.date?.value && <ConfidenceBadge field={suggestions.date} />}
+            </View>
+            <TextInput
+              style={styles.textInput}
+              value={date}
+              onChangeText={setDate}
+              placeholder="YYYY-MM-DD"
+              keyboardType="numbers-and-punctuation"
+              returnKeyType="next"
+            />
+          </View>
+
+          {/* Currency Input */}
+          <View style={styles.inputGroup}>
+            <View style={styles.labelRow}>
+              <Text style={styles.label}>Currency</Text>
+              {currency === suggestions?.currency?.value && <ConfidenceBadge field={suggestions.currency} />}
+            </View>
+            <TextInput
+              style={styles.textInput}
+              value={currency.toUpperCase()}
+              onChangeText={(text) => setCurrency(text.replace(/[^a-zA-Z]/g, '').toLowerCase())}
+              placeholder="Default currency"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={3}
+              returnKeyType="next"
+            />
+          </View>
+
           {/* Category Selection */}
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Category</Text>
+            <View style={styles.labelRow}>
+              <Text style={styles.label}>Category</Text>
+            </View>
             <ScrollView 
               horizontal 
               showsHorizontalScrollIndicator={false}
@@ -172,7 +234,9 @@ export const QuickExpenseEntry: React.FC<QuickExpenseEntryProps> = ({
 
           {/* Notes Input */}
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Notes</Text>
+            <View style={styles.labelRow}>
+              <Text style={styles.label}>Notes</Text>
+            </View>
             <TextInput
               style={[styles.textInput, styles.notesInput]}
               value={notes}
@@ -247,6 +311,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
     color: '#333',
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
     marginBottom: 8,
   },
   amountInputContainer: {
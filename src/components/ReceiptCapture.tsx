@@ -5,26 +5,39 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
-  Image,
   Dimensions,
+  FlatList,
+  Image,
 } from 'react-native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import { manipulateAsync, FlipType, SaveFormat } from 'expo-image-manipulator';
 import * as FileSystem from 'expo-file-system';
 import { Ionicons } from '@expo/vector-icons';
+import { DocumentCornerEditor } from './DocumentCornerEditor';
+import { detectDocumentCorners, scanDocument, DEFAULT_DOCUMENT_CORNERS } from '../utils/documentScanner';
+import { DocumentCorners, DocumentFilter } from '../types';
 
 interface ReceiptCaptureProps {
-  onCapture: (imageUri: string) => void;
+  // Receives every captured page in order; a single-page receipt is a one-item list
+  onCapture: (imageUris: string[]) => void | Promise<void>;
   onCancel: () => void;
 }
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+const WORKING_IMAGE_WIDTH = 1200; // Photos are scaled down to this before detection and correction
+
 export const ReceiptCapture: React.FC<ReceiptCaptureProps> = ({ onCapture, onCancel }) => {
   const [facing, setFacing] = useState<CameraType>('back');
   const [permission, requestPermission] = useCameraPermissions();
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [corners, setCorners] = useState<DocumentCorners>(DEFAULT_DOCUMENT_CORNERS);
+  const [detectedCorners, setDetectedCorners] = useState<DocumentCorners>(DEFAULT_DOCUMENT_CORNERS);
+  const [filter, setFilter] = useState<DocumentFilter>('grayscale');
+  const [pages, setPages] = useState<string[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
   const cameraRef = useRef<CameraView>(null);
 
   if (!permission) {
@@ -52,7 +65,21 @@ export const ReceiptCapture: React.FC<ReceiptCaptureProps> = ({ onCapture, onCan
         });
 
         if (photo?.uri) {
-          setCapturedImage(photo.uri);
+          // Bake in the EXIF orientation and shrink the photo so the corners line up with what is shown
+          const workingImage = await manipulateAsync(
+            photo.uri,
+            [{ resize: { width: WORKING_IMAGE_WIDTH } }],
+            { compress: 0.9, format: SaveFormat.JPEG }
+          );
+          const detection = await detectDocumentCorners(workingImage.uri).catch((error) => {
+            console.error('Edge detection error:', error);
+            return null;
+          });
+
+          setImageSize({ width: workingImage.width, height: workingImage.height });
+          setCorners(detection?.corners || DEFAULT_DOCUMENT_CORNERS);
+          setDetectedCorners(detection?.corners || DEFAULT_DOCUMENT_CORNERS);
+          setCapturedImage(workingImage.uri);
         }
       } catch (error) {
         Alert.alert('Error', 'Failed to take picture');
@@ -63,30 +90,42 @@ export const ReceiptCapture: React.FC<ReceiptCaptureProps> = ({ onCapture, onCan
     }
   };
 
-  const cropImage = async () => {
+  const savePages = async (capturedPages: string[]) => {
+    setIsProcessing(true);
+    try {
+      // Keep showing progress while the caller reads the receipt
+      await onCapture(capturedPages);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save receipt');
+      console.error('Receipt save error:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Straighten the current photo and add it as the next page; `finish` ends the batch
+  const addPage = async (finish: boolean) => {
     if (!capturedImage) return;
 
     try {
       setIsProcessing(true);
       
-      // Auto-crop to document-like aspect ratio and enhance
-      const manipResult = await manipulateAsync(
-        capturedImage,
-        [
-          { resize: { width: 800 } }, // Reduce size for better performance
-        ],
-        { compress: 0.8, format: SaveFormat.JPEG }
-      );
+      // Straighten the receipt inside the corners and clean it up for reading
+      const scanned = await scanDocument(capturedImage, corners, filter);
+      const capturedPages = [...pages, scanned.uri];
 
-      // Save to device storage - simplified for now
-      // In a real app, you'd want to use a proper file storage solution
-      const fileName = `receipt_${Date.now()}.jpg`;
-      
-      // For now, just use the manipulated image URI directly
-      // Later we can implement proper file storage when testing on device
-      const finalUri = manipResult.uri;
+      if (finish && capturedPages.length === 1) {
+        // Keep showing progress while the caller reads the receipt
+        await onCapture(capturedPages);
+        return;
+      }
 
-      onCapture(finalUri);
+      setPages(capturedPages);
+      retakePicture();
+      if (finish) {
+        // Let the user check the order before saving several pages as one receipt
+        setIsReviewing(true);
+      }
     } catch (error) {
       Alert.alert('Error', 'Failed to process image');
       console.error('Image processing error:', error);
@@ -97,33 +136,148 @@ export const ReceiptCapture: React.FC<ReceiptCaptureProps> = ({ onCapture, onCan
 
   const retakePicture = () => {
     setCapturedImage(null);
+    setCorners(DEFAULT_DOCUMENT_CORNERS);
+    setDetectedCorners(DEFAULT_DOCUMENT_CORNERS);
+  };
+
+  const movePage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pages.length) return;
+    const reordered = [...pages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPages(reordered);
+  };
+
+  const deletePage = (index: number) => {
+    const remaining = pages.filter((_, i) => i !== index);
+    setPages(remaining);
+    if (remaining.length === 0) {
+      setIsReviewing(false);
+    }
   };
 
   const toggleCameraFacing = () => {
     setFacing(current => (current === 'back' ? 'front' : 'back'));
   };
 
+  if (isReviewing) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.reviewHeader}>
+          <Text style={styles.reviewTitle}>{pages.length} Pages</Text>
+          <Text style={styles.scanHint}>Reorder or delete pages before saving them as one receipt</Text>
+        </View>
+        
+        <FlatList
+          data={pages}
+          keyExtractor={(uri) => uri}
+          contentContainerStyle={styles.reviewList}
+          renderItem={({ item, index }) => (
+            <View style={styles.pageRow}>
+              <Image source={{ uri: item }} style={styles.pageThumbnail} />
+              <Text style={styles.pageLabel}>Page {index + 1}</Text>
+              <TouchableOpacity
+                style={styles.pageAction}
+                onPress={() => movePage(index, -1)}
+                disabled={index === 0}
+              >
+                <Ionicons name="arrow-up" size={22} color={index === 0 ? '#555' : 'white'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.pageAction}
+                onPress={() => movePage(index, 1)}
+                disabled={index === pages.length - 1}
+              >
+                <Ionicons name="arrow-down" size={22} color={index === pages.length - 1 ? '#555' : 'white'} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.pageAction} onPress={() => deletePage(index)}>
+                <Ionicons name="trash" size={22} color="#FF3B30" />
+              </TouchableOpacity>
+            </View>
+          )}
+        />
+        
+        <View style={styles.previewControls}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setIsReviewing(false)}>
+            <Ionicons name="add" size={24} color="#007AFF" />
+            <Text style={styles.secondaryButtonText}>Add Page</Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.primaryButton, isProcessing && styles.disabledButton]} 
+            onPress={() => savePages(pages)}
+            disabled={isProcessing}
+          >
+            <Ionicons name="checkmark" size={24} color="white" />
+            <Text style={styles.primaryButtonText}>
+              {isProcessing ? 'Processing...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
   if (capturedImage) {
     return (
       <View style={styles.container}>
         <View style={styles.previewContainer}>
-          <Image source={{ uri: capturedImage }} style={styles.previewImage} />
+          <DocumentCornerEditor
+            imageUri={capturedImage}
+            imageWidth={imageSize.width}
+            imageHeight={imageSize.height}
+            corners={corners}
+            onChange={setCorners}
+          />
+        </View>
+        
+        <View style={styles.scanOptions}>
+          <Text style={styles.scanHint}>Drag the corners to the edges of the receipt</Text>
+          <View style={styles.scanOptionButtons}>
+            <TouchableOpacity style={styles.scanOptionButton} onPress={() => setCorners(detectedCorners)}>
+              <Ionicons name="scan" size={18} color="white" />
+              <Text style={styles.scanOptionText}>Auto</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.scanOptionButton, filter === 'grayscale' && styles.scanOptionButtonActive]}
+              onPress={() => setFilter('grayscale')}
+            >
+              <Ionicons name="contrast" size={18} color="white" />
+              <Text style={styles.scanOptionText}>Enhanced</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.scanOptionButton, filter === 'blackAndWhite' && styles.scanOptionButtonActive]}
+              onPress={() => setFilter('blackAndWhite')}
+            >
+              <Ionicons name="document-text" size={18} color="white" />
+              <Text style={styles.scanOptionText}>B&W</Text>
+            </TouchableOpacity>
+          </View>
         </View>
         
         <View style={styles.previewControls}>
-          <TouchableOpacity style={styles.secondaryButton} onPress={retakePicture}>
+          <TouchableOpacity style={[styles.secondaryButton, styles.compactButton]} onPress={retakePicture}>
             <Ionicons name="camera-reverse" size={24} color="#007AFF" />
             <Text style={styles.secondaryButtonText}>Retake</Text>
           </TouchableOpacity>
           
+          <TouchableOpacity
+            style={[styles.secondaryButton, styles.compactButton, isProcessing && styles.disabledButton]}
+            onPress={() => addPage(false)}
+            disabled={isProcessing}
+          >
+            <Ionicons name="add" size={24} color="#007AFF" />
+            <Text style={styles.secondaryButtonText}>Page</Text>
+          </TouchableOpacity>
+          
           <TouchableOpacity 
-            style={[styles.primaryButton, isProcessing && styles.disabledButton]} 
-            onPress={cropImage}
+            style={[styles.primaryButton, styles.compactButton, isProcessing && styles.disabledButton]} 
+            onPress={() => addPage(true)}
             disabled={isProcessing}
           >
             <Ionicons name="checkmark" size={24} color="white" />
             <Text style={styles.primaryButtonText}>
-              {isProcessing ? 'Processing...' : 'Use Photo'}
+              {isProcessing ? 'Processing...' : pages.length > 0 ? 'Done' : 'Use Photo'}
             </Text>
           </TouchableOpacity>
         </View>
@@ -151,6 +305,12 @@ export const ReceiptCapture: React.FC<ReceiptCaptureProps> = ({ onCapture, onCan
 
           {/* Bottom controls */}
           <View style={styles.bottomControls}>
+            {pages.length > 0 && (
+              <TouchableOpacity style={styles.pagesButton} onPress={() => setIsReviewing(true)}>
+                <Image source={{ uri: pages[pages.length - 1] }} style={styles.pagesButtonThumbnail} />
+                <Text style={styles.pagesButtonText}>{pages.length}</Text>
+              </TouchableOpacity>
+            )}
             <View style={styles.captureButtonContainer}>
               <TouchableOpacity 
                 style={[styles.captureButton, isProcessing && styles.disabledButton]} 
@@ -251,9 +411,105 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: 'black',
   },
-  previewImage: {
+  scanOptions: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    backgroundColor: 'black',
+  },
+  scanHint: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  scanOptionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  scanOptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    marginHorizontal: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  scanOptionButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  scanOptionText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  compactButton: {
     flex: 1,
-    resizeMode: 'contain',
+    minWidth: 0,
+    marginHorizontal: 5,
+    paddingHorizontal: 8,
+  },
+  pagesButton: {
+    position: 'absolute',
+    left: 30,
+    bottom: 10,
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'white',
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pagesButtonThumbnail: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  pagesButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '700',
+    textShadowColor: 'rgba(0, 0, 0, 0.8)',
+    textShadowRadius: 4,
+  },
+  reviewHeader: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+  },
+  reviewTitle: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  reviewList: {
+    paddingHorizontal: 20,
+  },
+  pageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  pageThumbnail: {
+    width: 60,
+    height: 80,
+    borderRadius: 4,
+    backgroundColor: '#222',
+  },
+  pageLabel: {
+    flex: 1,
+    color: 'white',
+    fontSize: 16,
+    marginLeft: 15,
+  },
+  pageAction: {
+    padding: 8,
+    marginLeft: 4,
   },
   previewControls: {
     flexDirection: 'row',
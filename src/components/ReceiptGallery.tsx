@@ -17,7 +17,10 @@ import {
   State,
   GestureHandlerRootView,
 } from 'react-native-gesture-handler';
+import Pdf from 'react-native-pdf';
 import { Attachment } from '../types';
+import { getAttachmentKind, getAttachmentPages } from '../utils/attachmentFiles';
+import { AttachmentThumbnail } from './AttachmentThumbnail';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -37,7 +40,9 @@ export default function ReceiptGallery({
   onDeleteAttachment,
 }: ReceiptGalleryProps) {
   const [currentIndex, setCurrentIndex] = useState(initialIndex);
+  const [pageIndex, setPageIndex] = useState(0); // Page within a multi-page receipt
   const [showControls, setShowControls] = useState(true);
+  const [pdfPage, setPdfPage] = useState({ current: 1, total: 0 });
 
   // Animation values for zoom and pan
   const scale = useRef(new Animated.Value(1)).current;
@@ -49,10 +54,19 @@ export default function ReceiptGallery({
   // Animation for image swiping
   const swipeTranslateX = useRef(new Animated.Value(0)).current;
 
-  // Reset zoom when image changes
+  // Reset zoom and PDF page when the attachment or page changes
   useEffect(() => {
     resetZoom();
-  }, [currentIndex]);
+    setPdfPage({ current: 1, total: 0 });
+  }, [currentIndex, pageIndex]);
+
+  const currentAttachment = attachments[currentIndex];
+  const currentKind = getAttachmentKind(currentAttachment?.mimeType);
+  const currentPages = currentAttachment ? getAttachmentPages(currentAttachment) : [];
+
+  // Navigation steps through the pages of a receipt before moving on to the next receipt
+  const hasPrevious = pageIndex > 0 || currentIndex > 0;
+  const hasNext = pageIndex < currentPages.length - 1 || currentIndex < attachments.length - 1;
 
   // Keep track of scale value for logic
   const scaleValue = useRef(1);
@@ -109,9 +123,9 @@ export default function ReceiptGallery({
         // Handle swipe for navigation when not zoomed
         const swipeThreshold = screenWidth * 0.3;
         
-        if (event.nativeEvent.translationX > swipeThreshold && currentIndex > 0) {
+        if (event.nativeEvent.translationX > swipeThreshold && hasPrevious) {
           goToPrevious();
-        } else if (event.nativeEvent.translationX < -swipeThreshold && currentIndex < attachments.length - 1) {
+        } else if (event.nativeEvent.translationX < -swipeThreshold && hasNext) {
           goToNext();
         }
         
@@ -125,19 +139,33 @@ export default function ReceiptGallery({
   };
 
   const goToNext = () => {
-    if (currentIndex < attachments.length - 1) {
+    if (pageIndex < currentPages.length - 1) {
+      setPageIndex(pageIndex + 1);
+      resetZoom();
+    } else if (currentIndex < attachments.length - 1) {
       setCurrentIndex(currentIndex + 1);
+      setPageIndex(0);
       resetZoom();
     }
   };
 
   const goToPrevious = () => {
-    if (currentIndex > 0) {
+    if (pageIndex > 0) {
+      setPageIndex(pageIndex - 1);
+      resetZoom();
+    } else if (currentIndex > 0) {
+      // Land on the last page of the previous receipt
       setCurrentIndex(currentIndex - 1);
+      setPageIndex(getAttachmentPages(attachments[currentIndex - 1]).length - 1);
       resetZoom();
     }
   };
 
+  const goToAttachment = (index: number) => {
+    setCurrentIndex(index);
+    setPageIndex(0);
+  };
+
   const resetZoom = () => {
     scaleValue.current = 1;
     baseScale.setValue(1);
@@ -186,6 +214,7 @@ export default function ReceiptGallery({
   const handleDelete = () => {
     if (onDeleteAttachment && attachments[currentIndex]) {
       onDeleteAttachment(attachments[currentIndex].id);
+      setPageIndex(0);
       if (attachments.length === 1) {
         onClose();
       } else if (currentIndex === attachments.length - 1) {
@@ -205,8 +234,6 @@ export default function ReceiptGallery({
     });
   };
 
-  const currentAttachment = attachments[currentIndex];
-
   return (
     <Modal
       visible={visible}
@@ -224,7 +251,9 @@ export default function ReceiptGallery({
             </TouchableOpacity>
             
             <View style={styles.headerInfo}>
-              <Text style={styles.fileName}>Receipt {currentIndex + 1}</Text>
+              <Text style={styles.fileName} numberOfLines={1}>
+                {currentKind === 'image' ? `Receipt ${currentIndex + 1}` : currentAttachment?.fileName}
+              </Text>
               <Text style={styles.counter}>
                 {currentIndex + 1} of {attachments.length}
               </Text>
@@ -240,62 +269,83 @@ export default function ReceiptGallery({
 
         {/* Image Container */}
         <View style={styles.imageContainer}>
-          <PanGestureHandler
-            onGestureEvent={onPanGestureEvent}
-            onHandlerStateChange={onPanHandlerStateChange}
-          >
-            <Animated.View style={styles.imageWrapper}>
-              <PinchGestureHandler
-                onGestureEvent={onPinchGestureEvent}
-                onHandlerStateChange={onPinchHandlerStateChange}
-              >
-                <Animated.View style={styles.zoomContainer}>
-                  <TapGestureHandler
-                    numberOfTaps={2}
-                    onActivated={onDoubleTap}
-                  >
-                    <Animated.View
-                      style={[
-                        styles.imageInnerContainer,
-                        {
-                          transform: [
-                            { translateX },
-                            { translateY },
-                            { scale: Animated.multiply(baseScale, pinchScale) },
-                          ],
-                        },
-                      ]}
+          {currentKind === 'pdf' && currentAttachment ? (
+            // The PDF viewer handles its own zoom and page scrolling
+            <Pdf
+              key={currentAttachment.id}
+              source={{ uri: currentAttachment.uri }}
+              style={styles.pdf}
+              onLoadComplete={(numberOfPages) => setPdfPage({ current: 1, total: numberOfPages })}
+              onPageChanged={(page, numberOfPages) => setPdfPage({ current: page, total: numberOfPages })}
+              onPageSingleTap={toggleControls}
+              onError={(error) => console.error('PDF display error:', error)}
+            />
+          ) : currentKind === 'document' && currentAttachment ? (
+            <TouchableOpacity style={styles.documentPlaceholder} activeOpacity={1} onPress={toggleControls}>
+              <Text style={styles.documentIcon}>📄</Text>
+              <Text style={styles.documentName}>{currentAttachment.fileName}</Text>
+              <Text style={styles.documentInfo}>
+                {currentAttachment.size ? `${Math.round(currentAttachment.size / 1024)}KB · ` : ''}No preview available
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <PanGestureHandler
+              onGestureEvent={onPanGestureEvent}
+              onHandlerStateChange={onPanHandlerStateChange}
+            >
+              <Animated.View style={styles.imageWrapper}>
+                <PinchGestureHandler
+                  onGestureEvent={onPinchGestureEvent}
+                  onHandlerStateChange={onPinchHandlerStateChange}
+                >
+                  <Animated.View style={styles.zoomContainer}>
+                    <TapGestureHandler
+                      numberOfTaps={2}
+                      onActivated={onDoubleTap}
                     >
-                      <Image
-                        source={{ uri: currentAttachment?.uri }}
-                        style={styles.image}
-                        resizeMode="contain"
-                      />
-                    </Animated.View>
-                  </TapGestureHandler>
-                  
-                  {/* Single tap for toggling controls */}
-                  <TapGestureHandler
-                    numberOfTaps={1}
-                    onActivated={toggleControls}
-                  >
-                    <Animated.View style={styles.tapOverlay} />
-                  </TapGestureHandler>
-                </Animated.View>
-              </PinchGestureHandler>
-            </Animated.View>
-          </PanGestureHandler>
+                      <Animated.View
+                        style={[
+                          styles.imageInnerContainer,
+                          {
+                            transform: [
+                              { translateX },
+                              { translateY },
+                              { scale: Animated.multiply(baseScale, pinchScale) },
+                            ],
+                          },
+                        ]}
+                      >
+                        <Image
+                          source={{ uri: currentPages[pageIndex]?.uri }}
+                          style={styles.image}
+                          resizeMode="contain"
+                        />
+                      </Animated.View>
+                    </TapGestureHandler>
+                    
+                    {/* Single tap for toggling controls */}
+                    <TapGestureHandler
+                      numberOfTaps={1}
+                      onActivated={toggleControls}
+                    >
+                      <Animated.View style={styles.tapOverlay} />
+                    </TapGestureHandler>
+                  </Animated.View>
+                </PinchGestureHandler>
+              </Animated.View>
+            </PanGestureHandler>
+          )}
         </View>
 
         {/* Navigation Arrows */}
-        {showControls && attachments.length > 1 && (
+        {showControls && (
           <>
-            {currentIndex > 0 && (
+            {hasPrevious && (
               <TouchableOpacity style={styles.navLeft} onPress={goToPrevious}>
                 <Text style={styles.navIcon}>‹</Text>
               </TouchableOpacity>
             )}
-            {currentIndex < attachments.length - 1 && (
+            {hasNext && (
               <TouchableOpacity style={styles.navRight} onPress={goToNext}>
                 <Text style={styles.navIcon}>›</Text>
               </TouchableOpacity>
@@ -308,6 +358,8 @@ export default function ReceiptGallery({
           <Animated.View style={[styles.footer, { opacity: showControls ? 1 : 0 }]}>
             <Text style={styles.dateText}>
               {currentAttachment ? formatDate(currentAttachment.dateAdded) : ''}
+              {currentKind === 'pdf' && pdfPage.total > 1 ? ` · Page ${pdfPage.current} of ${pdfPage.total}` : ''}
+              {currentPages.length > 1 ? ` · Page ${pageIndex + 1} of ${currentPages.length}` : ''}
             </Text>
             
             {/* Thumbnail strip for multiple images */}
@@ -320,12 +372,9 @@ export default function ReceiptGallery({
                       styles.thumbnail,
                       index === currentIndex && styles.activeThumbnail,
                     ]}
-                    onPress={() => setCurrentIndex(index)}
+                    onPress={() => goToAttachment(index)}
                   >
-                    <Image
-                      source={{ uri: attachment.uri }}
-                      style={styles.thumbnailImage}
-                    />
+                    <AttachmentThumbnail attachment={attachment} style={styles.thumbnailImage} />
                   </TouchableOpacity>
                 ))}
               </View>
@@ -492,4 +541,30 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 6,
   },
+  pdf: {
+    flex: 1,
+    width: screenWidth,
+    backgroundColor: 'black',
+  },
+  documentPlaceholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  documentIcon: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  documentName: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  documentInfo: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  FlatList,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { SplitLine, createSplitLine, getSplitRemaining } from '../services/splits';
+import { CategoryPickerModal, PickableCategory } from './CategoryPickerModal';
+
+interface SplitEditorProps {
+  total: string; // Amount of the whole transaction
+  lines: SplitLine[];
+  onChange: (lines: SplitLine[]) => void;
+  categories: PickableCategory[];
+  tags: string[]; // Tags that can be added to a line
+  currency?: string;
+  defaultCategoryName?: string; // Shown for lines that keep the transaction's category
+}
+
+export const SplitEditor: React.FC<SplitEditorProps> = ({
+  total,
+  lines,
+  onChange,
+  categories,
+  tags,
+  currency,
+  defaultCategoryName,
+}) => {
+  const [categoryLineKey, setCategoryLineKey] = useState<string | null>(null);
+  const [tagsLineKey, setTagsLineKey] = useState<string | null>(null);
+
+  const remaining = getSplitRemaining(total, lines);
+  const currencyLabel = (currency || '').toUpperCase();
+
+  const updateLine = (key: string, changes: Partial<SplitLine>) => {
+    onChange(lines.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (key: string) => {
+    onChange(lines.filter((line) => line.key !== key));
+  };
+
+  const addLine = () => {
+    onChange([...lines, createSplitLine({ amount: remaining > 0 ? remaining.toFixed(2) : '' })]);
+  };
+
+  // Put whatever is left on this line
+  const fillRemaining = (line: SplitLine) => {
+    const current = parseFloat(line.amount) || 0;
+    updateLine(line.key, { amount: Math.max(current + remaining, 0).toFixed(2) });
+  };
+
+  const toggleTag = (line: SplitLine, tag: string) => {
+    updateLine(line.key, {
+      tags: line.tags.includes(tag) ? line.tags.filter((t) => t !== tag) : [...line.tags, tag],
+    });
+  };
+
+  const getCategoryName = (line: SplitLine) => {
+    if (line.categoryId === null) {
+      return defaultCategoryName || 'Select Category';
+    }
+    return categories.find((category) => category.id === line.categoryId)?.name || 'Unknown category';
+  };
+
+  const tagsLine = lines.find((line) => line.key === tagsLineKey);
+
+  return (
+    <View>
+      {lines.map((line, index) => (
+        <View key={line.key} style={styles.line}>
+          <View style={styles.lineHeader}>
+            <Text style={styles.lineTitle}>Line {index + 1}</Text>
+            <TouchableOpacity onPress={() => removeLine(line.key)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Ionicons name="close" size={18} color="#999" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.amountRow}>
+            <TextInput
+              style={[styles.input, styles.amountInput]}
+              value={line.amount}
+              onChangeText={(text) => updateLine(line.key, { amount: text.replace(',', '.').replace(/[^0-9.]/g, '') })}
+              placeholder="0.00"
+              placeholderTextColor="#A0A0A0"
+              keyboardType="decimal-pad"
+            />
+            {currencyLabel ? <Text style={styles.currency}>{currencyLabel}</Text> : null}
+            {remaining !== 0 && (
+              <TouchableOpacity style={styles.fillButton} onPress={() => fillRemaining(line)}>
+                <Text style={styles.fillButtonText}>{remaining > 0 ? 'Add rest' : 'Fit total'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.input} onPress={() => setCategoryLineKey(line.key)}>
+            <Text style={line.categoryId === null ? styles.placeholderText : styles.inputText}>
+              {getCategoryName(line)}
+            </Text>
+          </TouchableOpacity>
+
+          <TextInput
+            style={styles.input}
+            value={line.notes}
+            onChangeText={(text) => updateLine(line.key, { notes: text })}
+            placeholder="Notes"
+            placeholderTextColor="#A0A0A0"
+          />
+
+          <TouchableOpacity style={styles.tagsRow} onPress={() => setTagsLineKey(line.key)}>
+            {line.tags.length > 0 ? (
+              line.tags.map((tag) => (
+                <View key={tag} style={styles.tag}>
+                  <Text style={styles.tagText}>{tag}</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.placeholderText}>Add tags</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={[styles.remainingRow, remaining === 0 ? styles.remainingDone : styles.remainingOpen]}>
+        <Text style={styles.remainingLabel}>{remaining < 0 ? 'Over-allocated' : 'Remaining'}</Text>
+        <Text style={[styles.remainingValue, remaining === 0 ? styles.remainingValueDone : styles.remainingValueOpen]}>
+          {Math.abs(remaining).toFixed(2)} {currencyLabel}
+        </Text>
+      </View>
+
+      <TouchableOpacity style={styles.addLineButton} onPress={addLine}>
+        <Ionicons name="add" size={18} color="#007AFF" />
+        <Text style={styles.addLineText}>ADD LINE</Text>
+      </TouchableOpacity>
+
+      <CategoryPickerModal
+        visible={categoryLineKey !== null}
+        title="Line Category"
+        categories={categories}
+        selectedId={lines.find((line) => line.key === categoryLineKey)?.categoryId}
+        onSelect={(category) => {
+          updateLine(categoryLineKey!, { categoryId: category.id });
+          setCategoryLineKey(null);
+        }}
+        onClose={() => setCategoryLineKey(null)}
+      />
+
+      {/* Tag picker */}
+      <Modal
+        visible={tagsLine !== undefined}
+        animationType="slide"
+        onRequestClose={() => setTagsLineKey(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Line Tags</Text>
+            <TouchableOpacity onPress={() => setTagsLineKey(null)}>
+              <Text style={styles.modalDone}>Done</Text>
+            </TouchableOpacity>
+          </View>
+          {tags.length === 0 ? (
+            <Text style={styles.emptyText}>No tags available</Text>
+          ) : (
+            <FlatList
+              data={tags}
+              keyExtractor={(item) => item}
+              renderItem={({ item }) => {
+                const isSelected = tagsLine?.tags.includes(item);
+                return (
+                  <TouchableOpacity style={styles.option} onPress={() => tagsLine && toggleTag(tagsLine, item)}>
+                    <Text style={styles.optionText}>{item}</Text>
+                    {isSelected && <Ionicons name="checkmark" size={20} color="#007AFF" />}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  line: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+    backgroundColor: '#fff',
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  lineTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginTop: 6,
+    fontSize: 15,
+    color: '#333',
+  },
+  amountInput: {
+    flex: 1,
+  },
+  inputText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  placeholderText: {
+    fontSize: 15,
+    color: '#A0A0A0',
+  },
+  currency: {
+    marginTop: 6,
+    fontSize: 14,
+    color: '#666',
+  },
+  fillButton: {
+    marginTop: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#E8F1FF',
+  },
+  fillButtonText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  tag: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#E8F1FF',
+  },
+  tagText: {
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  remainingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  remainingOpen: {
+    backgroundColor: '#FDECEA',
+  },
+  remainingDone: {
+    backgroundColor: '#E8F5E9',
+  },
+  remainingLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  remainingValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  remainingValueOpen: {
+    color: '#D32F2F',
+  },
+  remainingValueDone: {
+    color: '#2E7D32',
+  },
+  addLineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    gap: 4,
+  },
+  addLineText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  modalDone: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  emptyText: {
+    padding: 16,
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
@@ -13,20 +13,28 @@ import { Ionicons } from '@expo/vector-icons';
 import { ReceiptCapture } from '../components/ReceiptCapture';
 import { QuickExpenseEntry } from '../components/QuickExpenseEntry';
 import { useAppStore } from '../store/appStore';
+import { initializeProfiles } from '../services/profiles';
 import { getLunchMoneyAPI } from '../services/lunchMoneyAPI';
-import { NewTransaction } from '../types';
+import { syncOutbox, startOutboxAutoSync } from '../services/outbox';
+import { getUserFacingError } from '../services/apiErrors';
+import { extractReceiptSuggestions } from '../services/ocr';
+import { generateClientId, buildExternalId } from '../utils/ids';
+import { NewTransaction, OutboxItem, ReceiptSuggestions } from '../types';
 
 type ScreenMode = 'home' | 'camera' | 'expense';
 
 export const HomeScreen: React.FC = () => {
   const [screenMode, setScreenMode] = useState<ScreenMode>('home');
-  const [capturedReceipt, setCapturedReceipt] = useState<string | null>(null);
+  const [capturedReceipt, setCapturedReceipt] = useState<string[] | null>(null);
+  const [receiptSuggestions, setReceiptSuggestions] = useState<ReceiptSuggestions | undefined>(undefined);
   
   const { 
     settings, 
     syncStatus, 
-    offlineTransactions,
-    addOfflineTransaction,
+    outbox,
+    enqueueOutboxItem,
+    retryOutboxItem,
+    removeOutboxItem,
     setCategories,
     setTags,
     updateSyncStatus,
@@ -35,10 +43,20 @@ export const HomeScreen: React.FC = () => {
   } = useAppStore();
 
   useEffect(() => {
-    // Initialize app data
-    loadInitialData();
+    // Initialize app data once the active profile's stores are loaded
+    initializeProfiles().then(loadInitialData);
   }, []);
 
+  useEffect(() => {
+    // Retry queued transactions in the background according to their backoff schedule
+    if (!settings.lunchMoneyApiToken) {
+      return;
+    }
+    return startOutboxAutoSync();
+  }, [settings.lunchMoneyApiToken]);
+
+  const stuckOutboxItems = outbox.filter((item) => item.status === 'failed' || item.status === 'blocked');
+
   const loadInitialData = async () => {
     if (!settings.lunchMoneyApiToken) {
       // Show setup screen or prompt for API token
@@ -47,7 +65,7 @@ export const HomeScreen: React.FC = () => {
 
     try {
       setLoading(true);
-      const api = getLunchMoneyAPI(settings.lunchMoneyApiToken);
+      const api = getLunchMoneyAPI();
       
       // Load categories and tags
       const [categories, tags] = await Promise.all([
@@ -61,73 +79,102 @@ export const HomeScreen: React.FC = () => {
       updateSyncStatus({ lastSync: new Date().toISOString() });
     } catch (error) {
       console.error('Failed to load initial data:', error);
-      setError('Failed to sync with Lunch Money');
+      setError(getUserFacingError(error).message);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleCapturePhoto = (imageUri: string) => {
-    setCapturedReceipt(imageUri);
+  const handleCapturePhoto = async (imageUris: string[]) => {
+    setCapturedReceipt(imageUris);
+    
+    // Read the receipt before opening the form; entry still works if recognition fails
+    try {
+      setReceiptSuggestions(await extractReceiptSuggestions(imageUris));
+    } catch (error) {
+      console.error('Receipt text recognition failed:', error);
+      setReceiptSuggestions(undefined);
+    }
     setScreenMode('expense');
   };
 
-  const handleSaveTransaction = async (transaction: NewTransaction) => {
+  const handleSaveTransaction = async (newTransaction: NewTransaction) => {
+    // Assign the external_id up front so an online attempt and its queued retry share it
+    const transaction: NewTransaction = {
+      ...newTransaction,
+      external_id: newTransaction.external_id || buildExternalId(generateClientId()),
+    };
+
     try {
       if (settings.lunchMoneyApiToken && navigator.onLine) {
         // Try to save online
-        const api = getLunchMoneyAPI(settings.lunchMoneyApiToken);
+        const api = getLunchMoneyAPI();
         await api.createTransaction(transaction);
         Alert.alert('Success', 'Expense saved successfully!');
       } else {
         // Save offline
-        addOfflineTransaction(transaction);
+        enqueueOutboxItem({ operation: 'create', transaction });
         Alert.alert('Saved Offline', 'Expense will sync when online');
       }
       
       // Reset state
       setCapturedReceipt(null);
+      setReceiptSuggestions(undefined);
       setScreenMode('home');
     } catch (error) {
       console.error('Failed to save transaction:', error);
       
       // Fall back to offline storage
-      addOfflineTransaction(transaction);
+      enqueueOutboxItem({ operation: 'create', transaction });
       Alert.alert('Saved Offline', 'Failed to sync. Expense will sync when online.');
       
       setCapturedReceipt(null);
+      setReceiptSuggestions(undefined);
       setScreenMode('home');
     }
   };
 
   const syncOfflineTransactions = async () => {
-    if (!settings.lunchMoneyApiToken || offlineTransactions.length === 0) {
+    if (!settings.lunchMoneyApiToken || outbox.length === 0) {
       return;
     }
 
     try {
-      updateSyncStatus({ isSyncing: true });
-      const api = getLunchMoneyAPI(settings.lunchMoneyApiToken);
-      
-      for (const transaction of offlineTransactions) {
-        await api.createTransaction(transaction);
+      const result = await syncOutbox(getLunchMoneyAPI(), { force: true });
+
+      if (result.failed > 0) {
+        Alert.alert(
+          'Sync Incomplete',
+          `${result.synced} synced, ${result.failed} failed. Failed items will be retried automatically.`
+        );
+      } else {
+        Alert.alert('Sync Complete', `${result.synced} transactions synced`);
       }
-      
-      // Clear offline transactions after successful sync
-      useAppStore.getState().clearOfflineTransactions();
-      updateSyncStatus({ 
-        lastSync: new Date().toISOString(),
-        isSyncing: false 
-      });
-      
-      Alert.alert('Sync Complete', `${offlineTransactions.length} transactions synced`);
     } catch (error) {
       console.error('Sync failed:', error);
-      updateSyncStatus({ isSyncing: false });
       Alert.alert('Sync Failed', 'Some transactions could not be synced');
     }
   };
 
+  const describeOutboxItem = (item: OutboxItem): string => {
+    switch (item.operation) {
+      case 'create':
+        return `${item.transaction?.payee || 'New expense'} · ${item.transaction?.amount ?? ''}`;
+      case 'update':
+        return `Update transaction #${item.transactionId}`;
+      case 'delete':
+        return `Delete transaction #${item.transactionId}`;
+    }
+  };
+
+  const formatNextAttempt = (item: OutboxItem): string => {
+    if (item.status === 'blocked') return 'needs attention - fix and retry, or discard';
+    const seconds = Math.max(0, Math.round((new Date(item.nextAttemptAt).getTime() - Date.now()) / 1000));
+    if (seconds < 60) return 'retrying shortly';
+    if (seconds < 3600) return `retry in ${Math.round(seconds / 60)} min`;
+    return `retry in ${Math.round(seconds / 3600)} h`;
+  };
+
   if (screenMode === 'camera') {
     return (
       <ReceiptCapture
@@ -143,12 +190,15 @@ export const HomeScreen: React.FC = () => {
         onSubmit={handleSaveTransaction}
         onCancel={() => {
           setCapturedReceipt(null);
+          setReceiptSuggestions(undefined);
           setScreenMode('home');
         }}
+        suggestions={receiptSuggestions}
         initialData={capturedReceipt ? {
           receipt: {
             id: Date.now().toString(),
-            uri: capturedReceipt,
+            uri: capturedReceipt[0],
+            pages: capturedReceipt.length > 1 ? capturedReceipt : undefined,
             createdAt: new Date().toISOString(),
           }
         } : undefined}
@@ -178,7 +228,7 @@ export const HomeScreen: React.FC = () => {
             <Text style={styles.syncTitle}>
               {syncStatus.isOnline ? 'Connected' : 'Offline'}
             </Text>
-            {offlineTransactions.length > 0 && (
+            {outbox.length > 0 && (
               <TouchableOpacity 
                 style={styles.syncButton}
                 onPress={syncOfflineTransactions}
@@ -191,11 +241,45 @@ export const HomeScreen: React.FC = () => {
             )}
           </View>
           
-          {offlineTransactions.length > 0 && (
+          {outbox.length > 0 && (
             <Text style={styles.pendingText}>
-              {offlineTransactions.length} pending transaction{offlineTransactions.length !== 1 ? 's' : ''}
+              {outbox.length} pending transaction{outbox.length !== 1 ? 's' : ''}
+              {stuckOutboxItems.length > 0 ? ` (${stuckOutboxItems.length} stuck)` : ''}
             </Text>
           )}
+
+          {stuckOutboxItems.map((item) => (
+            <View key={item.clientId} style={styles.stuckItem}>
+              <View style={styles.stuckItemContent}>
+                <Text style={styles.stuckItemTitle} numberOfLines={1}>
+                  {describeOutboxItem(item)}
+                </Text>
+                <Text style={styles.stuckItemError} numberOfLines={2}>
+                  {item.lastError || 'Unknown error'}
+                </Text>
+                <Text style={styles.stuckItemMeta}>
+                  {item.attempts} attempt{item.attempts !== 1 ? 's' : ''} · {formatNextAttempt(item)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.stuckItemAction}
+                onPress={() => retryOutboxItem(item.clientId)}
+              >
+                <Ionicons name="refresh" size={18} color="#007AFF" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.stuckItemAction}
+                onPress={() =>
+                  Alert.alert('Discard Transaction', 'Remove this item from the sync queue?', [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Discard', style: 'destructive', onPress: () => removeOutboxItem(item.clientId) },
+                  ])
+                }
+              >
+                <Ionicons name="trash-outline" size={18} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
           
           {syncStatus.lastSync && (
             <Text style={styles.lastSyncText}>
@@ -324,6 +408,34 @@ const styles = StyleSheet.create({
     color: '#F59E0B',
     marginBottom: 4,
   },
+  stuckItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5E7',
+  },
+  stuckItemContent: {
+    flex: 1,
+  },
+  stuckItemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  stuckItemError: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 2,
+  },
+  stuckItemMeta: {
+    fontSize: 12,
+    color: '#86868B',
+    marginTop: 2,
+  },
+  stuckItemAction: {
+    padding: 8,
+  },
   lastSyncText: {
     fontSize: 12,
     color: '#86868B',
@@ -13,7 +13,10 @@ import { Ionicons } from '@expo/vector-icons';
 
 import SettingsScreen from './SettingsScreen';
 import { useAppStore } from '../store/appStore';
+import { initializeProfiles } from '../services/profiles';
 import { getLunchMoneyAPI } from '../services/lunchMoneyAPI';
+import { syncOutbox, startOutboxAutoSync } from '../services/outbox';
+import { generateClientId, buildExternalId } from '../utils/ids';
 import { NewTransaction } from '../types';
 
 type ScreenMode = 'home' | 'camera' | 'expense' | 'settings';
@@ -24,12 +27,12 @@ export const MainHomeScreen: React.FC = () => {
   
   const { 
     syncStatus, 
-    offlineTransactions,
+    outbox,
     isAuthenticated,
     checkAuthStatus,
     testConnection,
     setAuthenticated,
-    addOfflineTransaction,
+    enqueueOutboxItem,
     setCategories,
     setTags,
     updateSyncStatus,
@@ -41,7 +44,7 @@ export const MainHomeScreen: React.FC = () => {
   useEffect(() => {
     // Check authentication status on app start
     console.log('App starting, checking auth status...'); // Debug log
-    checkAuthStatus();
+    initializeProfiles().then(checkAuthStatus);
   }, []);
 
   useEffect(() => {
@@ -56,6 +59,14 @@ export const MainHomeScreen: React.FC = () => {
     }
   }, [isAuthenticated]);
 
+  useEffect(() => {
+    // Retry queued transactions in the background according to their backoff schedule
+    if (!isAuthenticated) {
+      return;
+    }
+    return startOutboxAutoSync();
+  }, [isAuthenticated]);
+
   const loadInitialData = async () => {
     if (!isAuthenticated) {
       return;
@@ -96,7 +107,13 @@ export const MainHomeScreen: React.FC = () => {
     setScreenMode('expense');
   };
 
-  const handleSaveTransaction = async (transaction: NewTransaction) => {
+  const handleSaveTransaction = async (newTransaction: NewTransaction) => {
+    // Assign the external_id up front so an online attempt and its queued retry share it
+    const transaction: NewTransaction = {
+      ...newTransaction,
+      external_id: newTransaction.external_id || buildExternalId(generateClientId()),
+    };
+
     try {
       if (isAuthenticated && navigator.onLine) {
         // Try to save online
@@ -105,7 +122,7 @@ export const MainHomeScreen: React.FC = () => {
         Alert.alert('Success', 'Expense saved successfully!');
       } else {
         // Save offline
-        addOfflineTransaction(transaction);
+        enqueueOutboxItem({ operation: 'create', transaction });
         Alert.alert('Saved Offline', 'Expense will sync when online');
       }
       
@@ -116,7 +133,7 @@ export const MainHomeScreen: React.FC = () => {
       console.error('Failed to save transaction:', error);
       
       // Fall back to offline storage
-      addOfflineTransaction(transaction);
+      enqueueOutboxItem({ operation: 'create', transaction });
       Alert.alert('Saved Offline', 'Failed to sync. Expense will sync when online.');
       
       setCapturedReceipt(null);
@@ -125,28 +142,20 @@ export const MainHomeScreen: React.FC = () => {
   };
 
   const handleSyncOfflineTransactions = async () => {
-    if (!isAuthenticated || offlineTransactions.length === 0) {
+    if (!isAuthenticated || outbox.length === 0) {
       return;
     }
 
     try {
-      updateSyncStatus({ isSyncing: true });
-      const api = getLunchMoneyAPI();
-      
-      for (const transaction of offlineTransactions) {
-        await api.createTransaction(transaction);
+      const result = await syncOutbox(getLunchMoneyAPI(), { force: true });
+
+      if (result.failed > 0) {
+        Alert.alert('Sync Incomplete', `${result.synced} synced, ${result.failed} failed. Will retry later.`);
+      } else {
+        Alert.alert('Sync Complete', `${result.synced} transactions synced`);
       }
-      
-      // Clear offline transactions after successful sync
-      updateSyncStatus({ 
-        isSyncing: false, 
-        pendingTransactions: 0 
-      });
-      
-      Alert.alert('Sync Complete', `${offlineTransactions.length} transactions synced`);
     } catch (error) {
       console.error('Sync failed:', error);
-      updateSyncStatus({ isSyncing: false });
       Alert.alert('Sync Failed', 'Some transactions could not be synced. Will retry later.');
     }
   };
@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useCacheStore } from '../store/cacheStore';
+import { getLunchMoneyAPI } from '../services/lunchMoneyAPI';
+import { initializeProfiles } from '../services/profiles';
+import { createReceiptArchive, shareReceiptArchive } from '../services/receiptExport';
+
+type DateField = 'start' | 'end';
+
+const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const formatDay = (date: Date) => {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const currentYear = new Date().getFullYear();
+
+const RANGE_PRESETS = [
+  { label: `${currentYear}`, start: new Date(currentYear, 0, 1), end: new Date(currentYear, 11, 31) },
+  { label: `${currentYear - 1}`, start: new Date(currentYear - 1, 0, 1), end: new Date(currentYear - 1, 11, 31) },
+];
+
+export default function ReceiptExportScreen() {
+  const [startDate, setStartDate] = useState(RANGE_PRESETS[1].start);
+  const [endDate, setEndDate] = useState(RANGE_PRESETS[1].end);
+  const [editingField, setEditingField] = useState<DateField | null>(null);
+  const [selectedCategoryIds, setSelectedCategoryIds] = useState<number[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const categories = useCacheStore((state) => state.categories);
+  const tags = useCacheStore((state) => state.tags);
+
+  // Transactions are categorized with leaf categories, not category groups
+  const selectableCategories = categories.filter((category) => !category.is_group);
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+  const handleDateChange = (field: DateField, date?: Date) => {
+    if (Platform.OS !== 'ios') {
+      setEditingField(null);
+    }
+    if (!date) return;
+    if (field === 'start') {
+      setStartDate(date);
+    } else {
+      setEndDate(date);
+    }
+  };
+
+  const handleExport = async () => {
+    if (startDate > endDate) {
+      Alert.alert('Invalid Range', 'The start date must be before the end date.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await initializeProfiles();
+      const result = await createReceiptArchive(
+        getLunchMoneyAPI(),
+        {
+          startDate: toDateString(startDate),
+          endDate: toDateString(endDate),
+          categoryIds: selectedCategoryIds,
+          tags: selectedTags,
+        },
+        categories
+      );
+
+      if (result.transactionCount === 0) {
+        Alert.alert('No Receipts', 'No transactions with attachments match these filters.');
+        return;
+      }
+
+      await shareReceiptArchive(result.uri);
+
+      const notes = [
+        result.fromCache && 'Lunch Money could not be reached, so only synced months were included.',
+        result.missingFileCount > 0 && `${result.missingFileCount} file(s) could not be read and are listed in the index.`,
+      ].filter(Boolean);
+      if (notes.length > 0) {
+        Alert.alert('Export Incomplete', notes.join('\n\n'));
+      }
+    } catch (error) {
+      console.error('Error exporting receipts:', error);
+      Alert.alert('Error', 'Failed to export receipts');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderDateField = (field: DateField, label: string, value: Date) => (
+    <View style={styles.dateRow}>
+      <Text style={styles.dateLabel}>{label}</Text>
+      {Platform.OS === 'ios' ? (
+        <DateTimePicker
+          value={value}
+          mode="date"
+          display="compact"
+          onChange={(event, date) => handleDateChange(field, date)}
+        />
+      ) : (
+        <TouchableOpacity style={styles.dateButton} onPress={() => setEditingField(field)}>
+          <Text style={styles.dateButtonText}>{formatDay(value)}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Period</Text>
+          <Text style={styles.description}>
+            Every receipt in the period is bundled into a ZIP, named by date, payee and amount, with an index
+            spreadsheet of the transactions.
+          </Text>
+
+          <View style={styles.chipRow}>
+            {RANGE_PRESETS.map((preset) => {
+              const isSelected =
+                toDateString(preset.start) === toDateString(startDate) && toDateString(preset.end) === toDateString(endDate);
+              return (
+                <TouchableOpacity
+                  key={preset.label}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => {
+                    setStartDate(preset.start);
+                    setEndDate(preset.end);
+                  }}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{preset.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {renderDateField('start', 'From', startDate)}
+          {renderDateField('end', 'To', endDate)}
+
+          {editingField && Platform.OS !== 'ios' && (
+            <DateTimePicker
+              value={editingField === 'start' ? startDate : endDate}
+              mode="date"
+              display="default"
+              onChange={(event, date) => handleDateChange(editingField, date)}
+            />
+          )}
+        </View>
+
+        {selectableCategories.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Categories</Text>
+            <Text style={styles.description}>Leave empty to include every category.</Text>
+            <View style={styles.chipRow}>
+              {selectableCategories.map((category) => {
+                const isSelected = selectedCategoryIds.includes(category.id);
+                return (
+                  <TouchableOpacity
+                    key={category.id}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setSelectedCategoryIds(toggle(selectedCategoryIds, category.id))}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{category.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {tags.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Tags</Text>
+            <Text style={styles.description}>Leave empty to include every transaction.</Text>
+            <View style={styles.chipRow}>
+              {tags.map((tag) => {
+                const isSelected = selectedTags.includes(tag);
+                return (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setSelectedTags(toggle(selectedTags, tag))}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{tag}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, isExporting && styles.disabledButton]}
+          onPress={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Export Receipts</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#333',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  dateLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  dateButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  dateButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
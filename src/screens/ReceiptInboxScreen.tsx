@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Attachment } from '../types';
+import { SecureStorage } from '../utils/storage';
+import { initializeProfiles } from '../services/profiles';
+import {
+  INBOX_TRANSACTION_ID,
+  MatchableTransaction,
+  findReceiptMatches,
+  readInboxReceipt,
+  linkInboxReceipt,
+} from '../services/receiptInbox';
+import AttachmentModal from '../components/AttachmentModal';
+import ReceiptGallery from '../components/ReceiptGallery';
+import { AttachmentThumbnail } from '../components/AttachmentThumbnail';
+import { ConfidenceBadge } from '../components/ConfidenceBadge';
+
+interface ReceiptInboxScreenProps {
+  transactions: MatchableTransaction[];
+  attachedTransactionIds: string[]; // Transactions that already have a receipt
+  onReceiptsChanged?: () => void;
+}
+
+const formatMoney = (amount: string, currency?: string) => {
+  const value = Math.abs(parseFloat(amount)).toFixed(2);
+  return currency ? `${value} ${currency.toUpperCase()}` : value;
+};
+
+const formatDay = (date: string) => {
+  return new Date(`${date.substring(0, 10)}T12:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export default function ReceiptInboxScreen({
+  transactions,
+  attachedTransactionIds,
+  onReceiptsChanged,
+}: ReceiptInboxScreenProps) {
+  const [receipts, setReceipts] = useState<Attachment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [readingIds, setReadingIds] = useState<string[]>([]);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [showAttachmentModal, setShowAttachmentModal] = useState(false);
+  const [galleryReceipt, setGalleryReceipt] = useState<Attachment | null>(null);
+
+  useEffect(() => {
+    loadReceipts();
+  }, []);
+
+  const loadReceipts = async () => {
+    try {
+      await initializeProfiles();
+      setReceipts(await SecureStorage.getTransactionAttachments(INBOX_TRANSACTION_ID));
+    } catch (error) {
+      console.error('Error loading receipt inbox:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReceiptAdded = async (attachment: Attachment) => {
+    setReceipts((prev) => [...prev, attachment]);
+    onReceiptsChanged?.();
+
+    setReadingIds((prev) => [...prev, attachment.id]);
+    try {
+      const receiptData = await readInboxReceipt(attachment);
+      if (receiptData) {
+        setReceipts((prev) => prev.map((r) => (r.id === attachment.id ? { ...r, receiptData } : r)));
+      }
+    } catch (error) {
+      // Still matched on capture date; the receipt stays in the inbox either way
+      console.error('Error reading inbox receipt:', error);
+    } finally {
+      setReadingIds((prev) => prev.filter((id) => id !== attachment.id));
+    }
+  };
+
+  const handleLink = async (receipt: Attachment, transaction: MatchableTransaction) => {
+    setLinkingId(receipt.id);
+    try {
+      await linkInboxReceipt(receipt.id, transaction.id!);
+      setReceipts((prev) => prev.filter((r) => r.id !== receipt.id));
+      onReceiptsChanged?.();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to link receipt');
+    } finally {
+      setLinkingId(null);
+    }
+  };
+
+  const handleDelete = (receipt: Attachment) => {
+    Alert.alert('Delete Receipt', 'Remove this receipt from the inbox?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await SecureStorage.removeTransactionAttachment(INBOX_TRANSACTION_ID, receipt.id);
+            setReceipts((prev) => prev.filter((r) => r.id !== receipt.id));
+            setGalleryReceipt(null);
+            onReceiptsChanged?.();
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete receipt');
+          }
+        },
+      },
+    ]);
+  };
+
+  const attachedIds = new Set(attachedTransactionIds);
+
+  return (
+    <>
+      <ScrollView style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Receipt Inbox</Text>
+            <Text style={styles.description}>
+              Capture receipts now and link them once the card transaction arrives. Matches are suggested
+              by amount, date and payee.
+            </Text>
+            <TouchableOpacity style={[styles.button, styles.addButton]} onPress={() => setShowAttachmentModal(true)}>
+              <Text style={styles.buttonText}>Add Receipt</Text>
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#007AFF" />
+          ) : receipts.length === 0 ? (
+            <Text style={styles.emptyText}>No unmatched receipts</Text>
+          ) : (
+            receipts.map((receipt) => {
+              const matches = findReceiptMatches(receipt, transactions, attachedIds);
+              const data = receipt.receiptData;
+              return (
+                <View key={receipt.id} style={styles.section}>
+                  <View style={styles.receiptRow}>
+                    <TouchableOpacity onPress={() => setGalleryReceipt(receipt)}>
+                      <AttachmentThumbnail attachment={receipt} style={styles.thumbnail} />
+                    </TouchableOpacity>
+                    <View style={styles.receiptInfo}>
+                      <View style={styles.fieldRow}>
+                        <Text style={styles.receiptPayee} numberOfLines={1}>
+                          {data?.payee?.value || 'Unknown payee'}
+                        </Text>
+                        <ConfidenceBadge field={data?.payee} />
+                      </View>
+                      <View style={styles.fieldRow}>
+                        <Text style={styles.receiptDetail}>
+                          {data?.amount ? formatMoney(data.amount.value, data.currency?.value) : 'No amount read'}
+                        </Text>
+                        <ConfidenceBadge field={data?.amount} />
+                      </View>
+                      <Text style={styles.receiptDetail}>
+                        {data?.date ? formatDay(data.date.value) : `Captured ${formatDay(receipt.dateAdded)}`}
+                      </Text>
+                    </View>
+                    <TouchableOpacity onPress={() => handleDelete(receipt)}>
+                      <Text style={styles.deleteText}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {readingIds.includes(receipt.id) ? (
+                    <Text style={styles.matchHint}>Reading receipt...</Text>
+                  ) : matches.length === 0 ? (
+                    <Text style={styles.matchHint}>No matching transaction yet</Text>
+                  ) : (
+                    matches.map(({ transaction, score }) => (
+                      <View key={String(transaction.id)} style={styles.matchRow}>
+                        <View style={styles.matchInfo}>
+                          <Text style={styles.matchPayee} numberOfLines={1}>{transaction.payee}</Text>
+                          <Text style={styles.matchDetail}>
+                            {formatMoney(transaction.amount, transaction.currency)} · {formatDay(transaction.date)} ·{' '}
+                            {Math.round(score * 100)}% match
+                          </Text>
+                        </View>
+                        <TouchableOpacity
+                          style={[styles.linkButton, linkingId === receipt.id && styles.disabledButton]}
+                          onPress={() => handleLink(receipt, transaction)}
+                          disabled={linkingId === receipt.id}
+                        >
+                          <Text style={styles.linkButtonText}>Link</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))
+                  )}
+                </View>
+              );
+            })
+          )}
+        </View>
+      </ScrollView>
+
+      <AttachmentModal
+        visible={showAttachmentModal}
+        onClose={() => setShowAttachmentModal(false)}
+        onAttachmentAdded={handleReceiptAdded}
+        transactionId={INBOX_TRANSACTION_ID}
+      />
+
+      <ReceiptGallery
+        visible={galleryReceipt !== null}
+        attachments={galleryReceipt ? [galleryReceipt] : []}
+        initialIndex={0}
+        onClose={() => setGalleryReceipt(null)}
+        onDeleteAttachment={() => galleryReceipt && handleDelete(galleryReceipt)}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#333',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+    lineHeight: 20,
+  },
+  button: {
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  addButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 16,
+    marginTop: 20,
+  },
+  receiptRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  thumbnail: {
+    width: 60,
+    height: 80,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  receiptInfo: {
+    flex: 1,
+    marginLeft: 15,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  receiptPayee: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flexShrink: 1,
+  },
+  receiptDetail: {
+    fontSize: 14,
+    color: '#666',
+  },
+  deleteText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  matchHint: {
+    marginTop: 15,
+    fontSize: 14,
+    color: '#999',
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  matchInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  matchPayee: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  matchDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  linkButton: {
+    backgroundColor: '#34C759',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+  },
+  linkButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
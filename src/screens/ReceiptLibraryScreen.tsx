@@ -0,0 +1,397 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  SectionList,
+  ScrollView,
+} from 'react-native';
+import { Attachment } from '../types';
+import { INBOX_TRANSACTION_ID } from '../services/receiptInbox';
+import { AttachmentThumbnail } from '../components/AttachmentThumbnail';
+import ReceiptGallery from '../components/ReceiptGallery';
+
+// Fields of a processed (display) transaction the library filters on
+export interface LibraryTransaction {
+  id?: number | string;
+  date: string;
+  payee?: string;
+  notes?: string;
+  category_name?: string;
+  account_display_name?: string;
+}
+
+interface ReceiptLibraryScreenProps<T extends LibraryTransaction> {
+  attachments: { [transactionId: string]: Attachment[] };
+  transactions: T[];
+  onOpenTransaction: (transaction: T) => void;
+  onOpenInbox: () => void;
+}
+
+type MatchFilter = 'all' | 'matched' | 'unmatched';
+
+interface LibraryItem<T> {
+  attachment: Attachment;
+  transaction?: T; // Missing for inbox receipts and transactions outside the synced months
+  date: string; // YYYY-MM-DD used for grouping
+}
+
+const MATCH_FILTERS: { value: MatchFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'matched', label: 'Matched' },
+  { value: 'unmatched', label: 'Unmatched' },
+];
+
+const formatDay = (date: string) => {
+  return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+const formatMonth = (month: string) => {
+  return new Date(`${month}-15T12:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const uniqueSorted = (values: (string | undefined)[]) =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+
+/**
+ * Every stored attachment as a thumbnail grid grouped by day, across all transactions
+ */
+export default function ReceiptLibraryScreen<T extends LibraryTransaction>({
+  attachments,
+  transactions,
+  onOpenTransaction,
+  onOpenInbox,
+}: ReceiptLibraryScreenProps<T>) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [matchFilter, setMatchFilter] = useState<MatchFilter>('all');
+  const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
+
+  const items = useMemo(() => {
+    const transactionsById = new Map(transactions.map((transaction) => [String(transaction.id), transaction]));
+    return Object.entries(attachments).flatMap(([transactionId, transactionAttachments]) =>
+      transactionAttachments.map((attachment): LibraryItem<T> => {
+        const transaction = transactionsById.get(transactionId);
+        return {
+          attachment,
+          transaction,
+          date: (transaction?.date || attachment.receiptData?.date?.value || attachment.dateAdded).substring(0, 10),
+        };
+      })
+    );
+  }, [attachments, transactions]);
+
+  const months = useMemo(() => uniqueSorted(items.map((item) => item.date.substring(0, 7))).reverse(), [items]);
+  const accounts = useMemo(() => uniqueSorted(items.map((item) => item.transaction?.account_display_name)), [items]);
+  const categories = useMemo(() => uniqueSorted(items.map((item) => item.transaction?.category_name)), [items]);
+
+  const sections = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const filtered = items.filter(({ attachment, transaction, date }) => {
+      const isInbox = attachment.transactionId === INBOX_TRANSACTION_ID;
+      if (matchFilter === 'matched' && isInbox) return false;
+      if (matchFilter === 'unmatched' && !isInbox) return false;
+      if (selectedMonth && !date.startsWith(selectedMonth)) return false;
+      if (selectedAccount && transaction?.account_display_name !== selectedAccount) return false;
+      if (selectedCategory && transaction?.category_name !== selectedCategory) return false;
+      if (query) {
+        const searchable = [
+          transaction?.payee,
+          transaction?.notes,
+          attachment.fileName,
+          attachment.receiptData?.payee?.value,
+          attachment.receiptData?.text,
+        ];
+        return searchable.some((text) => text?.toLowerCase().includes(query));
+      }
+      return true;
+    });
+
+    const byDate = new Map<string, LibraryItem<T>[]>();
+    filtered.forEach((item) => byDate.set(item.date, [...(byDate.get(item.date) || []), item]));
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([date, dateItems]) => ({ title: date, data: [dateItems] })); // One row holding the grid
+  }, [items, searchQuery, matchFilter, selectedMonth, selectedAccount, selectedCategory]);
+
+  const activeFilterCount = [selectedMonth, selectedAccount, selectedCategory].filter(Boolean).length;
+
+  const handleItemPress = ({ attachment, transaction }: LibraryItem<T>) => {
+    if (transaction) {
+      onOpenTransaction(transaction);
+    } else if (attachment.transactionId === INBOX_TRANSACTION_ID) {
+      onOpenInbox();
+    } else {
+      Alert.alert(
+        'Transaction Not Loaded',
+        'This receipt belongs to a transaction that has not been synced to this device yet. Scroll further back in the transaction list to load it.'
+      );
+    }
+  };
+
+  const renderChips = (
+    values: string[],
+    selected: string | null,
+    onSelect: (value: string | null) => void,
+    getLabel: (value: string) => string = (value) => value
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+      <TouchableOpacity style={[styles.chip, !selected && styles.chipSelected]} onPress={() => onSelect(null)}>
+        <Text style={[styles.chipText, !selected && styles.chipTextSelected]}>All</Text>
+      </TouchableOpacity>
+      {values.map((value) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.chip, selected === value && styles.chipSelected]}
+          onPress={() => onSelect(selected === value ? null : value)}
+        >
+          <Text style={[styles.chipText, selected === value && styles.chipTextSelected]}>{getLabel(value)}</Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.searchRow}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search payee or receipt text"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+          />
+          <TouchableOpacity style={styles.filterToggle} onPress={() => setShowFilters(!showFilters)}>
+            <Text style={styles.filterToggleText}>
+              {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.matchRow}>
+          {MATCH_FILTERS.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.segment, matchFilter === value && styles.segmentSelected]}
+              onPress={() => setMatchFilter(value)}
+            >
+              <Text style={[styles.segmentText, matchFilter === value && styles.segmentTextSelected]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {showFilters && (
+          <View>
+            <Text style={styles.filterLabel}>Month</Text>
+            {renderChips(months, selectedMonth, setSelectedMonth, formatMonth)}
+            {accounts.length > 0 && (
+              <>
+                <Text style={styles.filterLabel}>Account</Text>
+                {renderChips(accounts, selectedAccount, setSelectedAccount)}
+              </>
+            )}
+            {categories.length > 0 && (
+              <>
+                <Text style={styles.filterLabel}>Category</Text>
+                {renderChips(categories, selectedCategory, setSelectedCategory)}
+              </>
+            )}
+          </View>
+        )}
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(_, index) => String(index)}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.listContent}
+        renderSectionHeader={({ section }) => <Text style={styles.dayHeader}>{formatDay(section.title)}</Text>}
+        renderItem={({ item: dayItems }) => (
+          <View style={styles.grid}>
+            {dayItems.map((item) => (
+              <TouchableOpacity
+                key={item.attachment.id}
+                style={styles.cell}
+                onPress={() => handleItemPress(item)}
+                onLongPress={() => setPreviewAttachment(item.attachment)}
+              >
+                <AttachmentThumbnail attachment={item.attachment} style={styles.thumbnail} />
+                <Text style={styles.cellPayee} numberOfLines={1}>
+                  {item.transaction?.payee || item.attachment.receiptData?.payee?.value || item.attachment.fileName}
+                </Text>
+                {item.attachment.transactionId === INBOX_TRANSACTION_ID && (
+                  <View style={styles.unmatchedBadge}>
+                    <Text style={styles.unmatchedBadgeText}>Inbox</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {items.length === 0 ? 'No receipts stored yet' : 'No receipts match your search'}
+          </Text>
+        }
+      />
+
+      <ReceiptGallery
+        visible={previewAttachment !== null}
+        attachments={previewAttachment ? [previewAttachment] : []}
+        initialIndex={0}
+        onClose={() => setPreviewAttachment(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  filterToggle: {
+    marginLeft: 10,
+    paddingVertical: 8,
+  },
+  filterToggleText: {
+    color: '#007AFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  matchRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#fff',
+  },
+  segmentText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  segmentTextSelected: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  filterLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 15,
+  },
+  dayHeader: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  cell: {
+    width: 100,
+  },
+  thumbnail: {
+    width: 100,
+    height: 130,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  cellPayee: {
+    fontSize: 12,
+    color: '#333',
+    marginTop: 4,
+  },
+  unmatchedBadge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    backgroundColor: '#FF9500',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  unmatchedBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 16,
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,422 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { ReimbursementStatus } from '../types';
+import { SecureStorage } from '../utils/storage';
+import { initializeProfiles } from '../services/profiles';
+import { getLunchMoneyAPI } from '../services/lunchMoneyAPI';
+import {
+  REIMBURSEMENT_STATUS_LABELS,
+  ReimbursableTransaction,
+  setReimbursementStatus,
+  markReimbursed,
+  createExpenseReport,
+  shareExpenseReport,
+} from '../services/reimbursements';
+
+interface ReimbursementsScreenProps<T extends ReimbursableTransaction> {
+  transactions: T[];
+  attachmentCounts: { [transactionId: string]: number };
+  onOpenTransaction: (transaction: T) => void;
+  onReimbursementsChanged?: () => void;
+}
+
+const STATUSES = Object.keys(REIMBURSEMENT_STATUS_LABELS) as ReimbursementStatus[];
+
+const formatDay = (date: string) => {
+  return new Date(`${date.substring(0, 10)}T12:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+/**
+ * Reimbursable expenses by status, with a PDF expense report for a selection
+ */
+export default function ReimbursementsScreen<T extends ReimbursableTransaction>({
+  transactions,
+  attachmentCounts,
+  onOpenTransaction,
+  onReimbursementsChanged,
+}: ReimbursementsScreenProps<T>) {
+  const [statuses, setStatuses] = useState<{ [transactionId: string]: ReimbursementStatus }>({});
+  const [statusFilter, setStatusFilter] = useState<ReimbursementStatus>('pending');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatuses();
+  }, []);
+
+  const loadStatuses = async () => {
+    try {
+      await initializeProfiles();
+      const reimbursements = await SecureStorage.getAllTransactionReimbursements();
+      const loaded: { [transactionId: string]: ReimbursementStatus } = {};
+      Object.values(reimbursements).forEach(({ transactionId, status }) => {
+        loaded[transactionId] = status;
+      });
+      setStatuses(loaded);
+    } catch (error) {
+      console.error('Error loading reimbursements:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reimbursable = transactions.filter((transaction) => statuses[String(transaction.id)]);
+  const visible = reimbursable
+    .filter((transaction) => statuses[String(transaction.id)] === statusFilter)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const selected = visible.filter((transaction) => selectedIds.includes(String(transaction.id)));
+  // Reimbursable transactions outside the synced months can't be shown yet
+  const unloadedCount = Object.keys(statuses).length - reimbursable.length;
+
+  const toggleSelected = (transactionId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(transactionId) ? prev.filter((id) => id !== transactionId) : [...prev, transactionId]
+    );
+  };
+
+  const changeFilter = (status: ReimbursementStatus) => {
+    setStatusFilter(status);
+    setSelectedIds([]);
+  };
+
+  const runAction = async (name: string, action: () => Promise<void>) => {
+    setBusyAction(name);
+    try {
+      await action();
+      await loadStatuses();
+      setSelectedIds([]);
+      onReimbursementsChanged?.();
+    } catch (error) {
+      console.error(`Error running reimbursement action ${name}:`, error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleCreateReport = () => {
+    runAction('report', async () => {
+      const uri = await createExpenseReport(selected);
+      await shareExpenseReport(uri);
+
+      if (statusFilter === 'pending') {
+        Alert.alert('Mark as Submitted?', `Mark ${selected.length} expense(s) as submitted for reimbursement?`, [
+          { text: 'Not Now', style: 'cancel' },
+          {
+            text: 'Mark Submitted',
+            onPress: () => runAction('submitted', () => setReimbursementStatus(selected.map((t) => t.id!), 'submitted')),
+          },
+        ]);
+      }
+    });
+  };
+
+  const handleMarkReimbursed = () => {
+    Alert.alert(
+      'Mark as Reimbursed',
+      `${selected.length} expense(s) will be tagged "Reimbursed" in Lunch Money.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Mark Reimbursed',
+          onPress: () =>
+            runAction('reimbursed', async () => {
+              const { failedIds } = await markReimbursed(getLunchMoneyAPI(), selected);
+              if (failedIds.length > 0) {
+                Alert.alert(
+                  'Some Expenses Not Updated',
+                  `${failedIds.length} expense(s) could not be tagged in Lunch Money and are unchanged. Try again when online.`
+                );
+              }
+            }),
+        },
+      ]
+    );
+  };
+
+  const handleRemove = () => {
+    runAction('remove', () => setReimbursementStatus(selected.map((t) => t.id!), null));
+  };
+
+  const allSelected = visible.length > 0 && selected.length === visible.length;
+  const actionsDisabled = selected.length === 0 || busyAction !== null;
+
+  const renderTransaction = ({ item }: { item: T }) => {
+    const id = String(item.id);
+    const isSelected = selectedIds.includes(id);
+    const receiptCount = attachmentCounts[id] || 0;
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => toggleSelected(id)}
+        onLongPress={() => onOpenTransaction(item)}
+      >
+        <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+          {isSelected && <Text style={styles.checkmark}>✓</Text>}
+        </View>
+        <View style={styles.rowInfo}>
+          <Text style={styles.payee} numberOfLines={1}>{item.payee}</Text>
+          <Text style={[styles.detail, receiptCount === 0 && styles.warning]}>
+            {formatDay(item.date)} · {receiptCount > 0 ? `${receiptCount} receipt(s)` : 'No receipt'}
+          </Text>
+        </View>
+        <Text style={styles.amount}>
+          {parseFloat(String(item.amount)).toFixed(2)} {(item.currency || '').toUpperCase()}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.segmentRow}>
+          {STATUSES.map((status) => (
+            <TouchableOpacity
+              key={status}
+              style={[styles.segment, statusFilter === status && styles.segmentSelected]}
+              onPress={() => changeFilter(status)}
+            >
+              <Text style={[styles.segmentText, statusFilter === status && styles.segmentTextSelected]}>
+                {REIMBURSEMENT_STATUS_LABELS[status]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {visible.length > 0 && (
+          <TouchableOpacity
+            style={styles.selectAllRow}
+            onPress={() => setSelectedIds(allSelected ? [] : visible.map((t) => String(t.id)))}
+          >
+            <Text style={styles.selectAllText}>{allSelected ? 'Clear Selection' : 'Select All'}</Text>
+            <Text style={styles.hint}>Long press to open</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+      ) : (
+        <FlatList
+          data={visible}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderTransaction}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {statusFilter === 'pending'
+                ? 'No pending expenses. Mark a transaction as reimbursable from its details.'
+                : `No ${REIMBURSEMENT_STATUS_LABELS[statusFilter].toLowerCase()} expenses`}
+            </Text>
+          }
+          ListFooterComponent={
+            unloadedCount > 0 ? (
+              <Text style={styles.hint}>
+                {unloadedCount} reimbursable transaction(s) from older months aren't loaded on this device.
+              </Text>
+            ) : null
+          }
+        />
+      )}
+
+      <View style={styles.actionBar}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.reportButton, actionsDisabled && styles.disabledButton]}
+          onPress={handleCreateReport}
+          disabled={actionsDisabled}
+        >
+          {busyAction === 'report' ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.actionText}>Create Report</Text>
+          )}
+        </TouchableOpacity>
+        {statusFilter !== 'reimbursed' && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.reimbursedButton, actionsDisabled && styles.disabledButton]}
+            onPress={handleMarkReimbursed}
+            disabled={actionsDisabled}
+          >
+            {busyAction === 'reimbursed' ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.actionText}>Reimbursed</Text>
+            )}
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.actionButton, styles.removeButton, actionsDisabled && styles.disabledButton]}
+          onPress={handleRemove}
+          disabled={actionsDisabled}
+        >
+          <Text style={styles.removeText}>Remove</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#fff',
+  },
+  segmentText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  segmentTextSelected: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  selectAllRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  selectAllText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  listContent: {
+    padding: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 10,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  checkboxSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  payee: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  warning: {
+    color: '#FF9500',
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 16,
+    marginTop: 40,
+    paddingHorizontal: 20,
+  },
+  actionBar: {
+    flexDirection: 'row',
+    padding: 15,
+    gap: 10,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  actionButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  reportButton: {
+    backgroundColor: '#007AFF',
+  },
+  reimbursedButton: {
+    backgroundColor: '#34C759',
+  },
+  removeButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#FF3B30',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -10,6 +10,13 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { SecureStorage } from '../utils/storage';
+import { getLunchMoneyAPI } from '../services/lunchMoneyAPI';
+import { useCacheStore } from '../store/cacheStore';
+import { useAppStore } from '../store/appStore';
+import { AttachmentQuality, Profile } from '../types';
+import { ATTACHMENT_QUALITY_PRESETS, DEFAULT_ATTACHMENT_QUALITY } from '../utils/attachmentFiles';
+import { getActiveProfileId } from '../utils/profileScope';
+import { getProfiles, createProfile, switchProfile, deleteProfile, initializeProfiles } from '../services/profiles';
 
 interface Account {
   id: number;
@@ -19,32 +26,116 @@ interface Account {
 
 interface SettingsScreenProps {
   onTokenSaved?: () => void;
+  onProfileSwitched?: () => void;
+  onOpenStorage?: () => void;
+  onOpenReceiptExport?: () => void;
   accounts?: Account[];
 }
 
-export default function SettingsScreen({ onTokenSaved, accounts = [] }: SettingsScreenProps) {
+export default function SettingsScreen({
+  onTokenSaved,
+  onProfileSwitched,
+  onOpenStorage,
+  onOpenReceiptExport,
+  accounts = [],
+}: SettingsScreenProps) {
   const [apiToken, setApiToken] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [hasExistingToken, setHasExistingToken] = useState(false);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [newProfileName, setNewProfileName] = useState('');
+  const attachmentQuality = useAppStore((state) => state.settings.attachmentQuality) || DEFAULT_ATTACHMENT_QUALITY;
+  const updateSettings = useAppStore((state) => state.updateSettings);
 
   useEffect(() => {
     checkExistingToken();
+    loadProfiles();
   }, []);
 
   const checkExistingToken = async () => {
     try {
+      await initializeProfiles();
       const hasToken = await SecureStorage.hasLunchMoneyToken();
       setHasExistingToken(hasToken);
       
       if (hasToken) {
         // Show masked token for security
         setApiToken('••••••••••••••••••••••••••••••••');
+      } else {
+        setApiToken('');
       }
     } catch (error) {
       console.error('Error checking existing token:', error);
     }
   };
 
+  const loadProfiles = async () => {
+    try {
+      await initializeProfiles();
+      setProfiles(await getProfiles());
+      setActiveProfileId(getActiveProfileId());
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+    }
+  };
+
+  const handleSwitchProfile = async (profile: Profile) => {
+    if (profile.id === activeProfileId) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await switchProfile(profile.id);
+      setActiveProfileId(profile.id);
+      await checkExistingToken();
+      
+      if (onProfileSwitched) {
+        onProfileSwitched();
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to switch profile.');
+      console.error('Error switching profile:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddProfile = async () => {
+    try {
+      await createProfile(newProfileName);
+      setNewProfileName('');
+      await loadProfiles();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add profile.');
+      console.error('Error adding profile:', error);
+    }
+  };
+
+  const handleDeleteProfile = (profile: Profile) => {
+    Alert.alert(
+      'Delete Profile',
+      `Delete "${profile.name}"? Its API token, cached data, preferences, queued transactions and attachment records will be removed from this device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteProfile(profile.id);
+              await loadProfiles();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete profile.');
+              console.error('Error deleting profile:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleSaveToken = async () => {
     if (!apiToken.trim()) {
       Alert.alert('Error', 'Please enter your Lunch Money API token');
@@ -60,6 +151,7 @@ export default function SettingsScreen({ onTokenSaved, accounts = [] }: Settings
     setIsLoading(true);
     try {
       await SecureStorage.setLunchMoneyToken(apiToken.trim());
+      getLunchMoneyAPI().setApiToken(apiToken.trim());
       setHasExistingToken(true);
       setApiToken('••••••••••••••••••••••••••••••••');
       
@@ -97,6 +189,9 @@ export default function SettingsScreen({ onTokenSaved, accounts = [] }: Settings
     setIsLoading(true);
     try {
       await SecureStorage.removeLunchMoneyToken();
+      getLunchMoneyAPI().setApiToken(null);
+      // Cached data belongs to the removed token's budget
+      useCacheStore.getState().clearCache();
       setHasExistingToken(false);
       setApiToken('');
       Alert.alert('Success', 'API token cleared successfully!');
@@ -111,6 +206,54 @@ export default function SettingsScreen({ onTokenSaved, accounts = [] }: Settings
   return (
     <ScrollView style={styles.container}>
       <View style={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Profiles</Text>
+          <Text style={styles.description}>
+            Each profile has its own Lunch Money token, cached data, preferences and offline queue.
+          </Text>
+          
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeProfileId;
+            return (
+              <View key={profile.id} style={styles.profileRow}>
+                <TouchableOpacity
+                  style={styles.profileInfo}
+                  onPress={() => handleSwitchProfile(profile)}
+                  disabled={isLoading}
+                >
+                  <View style={[styles.radio, isActive && styles.radioSelected]} />
+                  <Text style={[styles.profileName, isActive && styles.profileNameActive]}>
+                    {profile.name}
+                  </Text>
+                </TouchableOpacity>
+                {!isActive && (
+                  <TouchableOpacity onPress={() => handleDeleteProfile(profile)} disabled={isLoading}>
+                    <Text style={styles.profileDeleteText}>Delete</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+          
+          <View style={styles.addProfileRow}>
+            <TextInput
+              style={[styles.input, styles.addProfileInput]}
+              value={newProfileName}
+              onChangeText={setNewProfileName}
+              placeholder="New profile name"
+              autoCorrect={false}
+              editable={!isLoading}
+            />
+            <TouchableOpacity
+              style={[styles.button, styles.saveButton, styles.addProfileButton]}
+              onPress={handleAddProfile}
+              disabled={isLoading || !newProfileName.trim()}
+            >
+              <Text style={styles.buttonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>API Token</Text>
           
@@ -152,6 +295,55 @@ export default function SettingsScreen({ onTokenSaved, accounts = [] }: Settings
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Attachment Quality</Text>
+          <Text style={styles.description}>
+            Photos are resized and compressed when attached. Lower quality uses less storage.
+          </Text>
+          
+          {(Object.keys(ATTACHMENT_QUALITY_PRESETS) as AttachmentQuality[]).map((quality) => {
+            const preset = ATTACHMENT_QUALITY_PRESETS[quality];
+            const isSelected = quality === attachmentQuality;
+            return (
+              <TouchableOpacity
+                key={quality}
+                style={styles.profileRow}
+                onPress={() => updateSettings({ attachmentQuality: quality })}
+              >
+                <View style={styles.profileInfo}>
+                  <View style={[styles.radio, isSelected && styles.radioSelected]} />
+                  <Text style={[styles.profileName, isSelected && styles.profileNameActive]}>
+                    {preset.label}
+                  </Text>
+                </View>
+                <Text style={styles.qualityDetail}>
+                  {preset.maxDimension}px · {Math.round(preset.compress * 100)}%
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Receipt Archive</Text>
+          <Text style={styles.description}>
+            Export every receipt for a period as a ZIP with an index spreadsheet, e.g. for your accountant.
+          </Text>
+          <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={onOpenReceiptExport}>
+            <Text style={styles.buttonText}>Export Receipts</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Storage</Text>
+          <Text style={styles.description}>
+            See how much space attachments use and clean up ones whose transaction is gone.
+          </Text>
+          <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={onOpenStorage}>
+            <Text style={styles.buttonText}>Manage Storage</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>How to get your API token:</Text>
           <Text style={styles.instructions}>
@@ -237,4 +429,58 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 20,
   },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  profileInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    marginRight: 12,
+  },
+  radioSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  profileName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  profileNameActive: {
+    fontWeight: '600',
+  },
+  profileDeleteText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  qualityDetail: {
+    fontSize: 14,
+    color: '#999',
+  },
+  addProfileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 15,
+    gap: 10,
+  },
+  addProfileInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  addProfileButton: {
+    paddingHorizontal: 20,
+  },
 });
\ No newline at end of file
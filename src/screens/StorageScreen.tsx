@@ -0,0 +1,387 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useAppStore } from '../store/appStore';
+import { initializeProfiles } from '../services/profiles';
+import {
+  ORPHAN_CLEANUP_OPTIONS,
+  AttachmentStorageUsage,
+  OrphanedAttachment,
+  OrphanReason,
+  getAttachmentStorageUsage,
+  findOrphanedAttachments,
+  deleteOrphanedAttachments,
+  moveOrphansToInbox,
+} from '../services/attachmentCleanup';
+import { AttachmentThumbnail } from '../components/AttachmentThumbnail';
+
+interface StorageScreenProps {
+  onAttachmentsChanged?: () => void;
+}
+
+const REASON_LABELS: Record<OrphanReason, string> = {
+  abandoned: 'From an unsaved transaction',
+  deletedTransaction: 'Transaction was deleted',
+  untracked: 'File not linked to anything',
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+export default function StorageScreen({ onAttachmentsChanged }: StorageScreenProps) {
+  const [usage, setUsage] = useState<AttachmentStorageUsage | null>(null);
+  const [orphans, setOrphans] = useState<OrphanedAttachment[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isScanning, setIsScanning] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const orphanCleanupDays = useAppStore((state) => state.settings.orphanCleanupDays) || 0;
+  const updateSettings = useAppStore((state) => state.updateSettings);
+
+  useEffect(() => {
+    scan();
+  }, []);
+
+  const scan = async () => {
+    setIsScanning(true);
+    try {
+      await initializeProfiles();
+      setUsage(await getAttachmentStorageUsage());
+      const found = await findOrphanedAttachments();
+      setOrphans(found);
+      setSelectedIds(found.map(({ attachment }) => attachment.id));
+    } catch (error) {
+      console.error('Error scanning attachment storage:', error);
+      Alert.alert('Error', 'Failed to check attachment storage');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const toggleSelected = (attachmentId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(attachmentId) ? prev.filter((id) => id !== attachmentId) : [...prev, attachmentId]
+    );
+  };
+
+  const selectedOrphans = orphans.filter(({ attachment }) => selectedIds.includes(attachment.id));
+  const selectedSize = selectedOrphans.reduce((total, orphan) => total + orphan.size, 0);
+
+  const applyToSelected = async (action: (orphans: OrphanedAttachment[]) => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action(selectedOrphans);
+      onAttachmentsChanged?.();
+      await scan();
+    } catch (error) {
+      Alert.alert('Error', failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Attachments',
+      `Delete ${selectedOrphans.length} orphaned attachment(s) and free ${formatSize(selectedSize)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => applyToSelected(deleteOrphanedAttachments, 'Failed to delete attachments'),
+        },
+      ]
+    );
+  };
+
+  const handleMoveToInbox = () => {
+    applyToSelected(moveOrphansToInbox, 'Failed to move attachments to the inbox');
+  };
+
+  const allSelected = orphans.length > 0 && selectedIds.length === orphans.length;
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Attachment Storage</Text>
+          {usage ? (
+            <>
+              <Text style={styles.totalSize}>{formatSize(usage.totalSize)}</Text>
+              <Text style={styles.description}>
+                {usage.attachmentCount} attachment(s) in {usage.fileCount} file(s), thumbnails included
+              </Text>
+            </>
+          ) : (
+            <ActivityIndicator color="#007AFF" />
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Orphaned Attachments</Text>
+          <Text style={styles.description}>
+            Attachments from transactions that were never saved or were deleted in Lunch Money. Move them to the
+            receipt inbox to link them again, or delete them to free space.
+          </Text>
+
+          {isScanning ? (
+            <View style={styles.scanningRow}>
+              <ActivityIndicator color="#007AFF" />
+              <Text style={styles.scanningText}>Checking transactions...</Text>
+            </View>
+          ) : orphans.length === 0 ? (
+            <Text style={styles.emptyText}>No orphaned attachments</Text>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={styles.selectAllRow}
+                onPress={() => setSelectedIds(allSelected ? [] : orphans.map(({ attachment }) => attachment.id))}
+              >
+                <Text style={styles.selectAllText}>{allSelected ? 'Clear Selection' : 'Select All'}</Text>
+                <Text style={styles.selectionSummary}>
+                  {selectedOrphans.length} selected · {formatSize(selectedSize)}
+                </Text>
+              </TouchableOpacity>
+
+              {orphans.map(({ attachment, reason, size }) => {
+                const isSelected = selectedIds.includes(attachment.id);
+                return (
+                  <TouchableOpacity
+                    key={attachment.id}
+                    style={styles.orphanRow}
+                    onPress={() => toggleSelected(attachment.id)}
+                  >
+                    <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                      {isSelected && <Text style={styles.checkmark}>✓</Text>}
+                    </View>
+                    <AttachmentThumbnail attachment={attachment} style={styles.thumbnail} />
+                    <View style={styles.orphanInfo}>
+                      <Text style={styles.orphanName} numberOfLines={1}>{attachment.fileName}</Text>
+                      <Text style={styles.orphanDetail}>{REASON_LABELS[reason]}</Text>
+                      <Text style={styles.orphanDetail}>
+                        {formatSize(size)} · {new Date(attachment.dateAdded).toLocaleDateString()}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+
+              <View style={styles.actionRow}>
+                <TouchableOpacity
+                  style={[styles.button, styles.inboxButton, (isWorking || selectedOrphans.length === 0) && styles.disabledButton]}
+                  onPress={handleMoveToInbox}
+                  disabled={isWorking || selectedOrphans.length === 0}
+                >
+                  <Text style={styles.buttonText}>Move to Inbox</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.deleteButton, (isWorking || selectedOrphans.length === 0) && styles.disabledButton]}
+                  onPress={handleDelete}
+                  disabled={isWorking || selectedOrphans.length === 0}
+                >
+                  <Text style={styles.buttonText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Automatic Cleanup</Text>
+          <Text style={styles.description}>
+            Delete orphaned attachments automatically once they reach this age. Checked after transactions sync.
+          </Text>
+
+          {ORPHAN_CLEANUP_OPTIONS.map(({ days, label }) => {
+            const isSelected = days === orphanCleanupDays;
+            return (
+              <TouchableOpacity
+                key={days}
+                style={styles.optionRow}
+                onPress={() => updateSettings({ orphanCleanupDays: days })}
+              >
+                <View style={[styles.radio, isSelected && styles.radioSelected]} />
+                <Text style={[styles.optionLabel, isSelected && styles.optionLabelSelected]}>{label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 10,
+    color: '#333',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 15,
+    lineHeight: 20,
+  },
+  totalSize: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 5,
+  },
+  scanningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  scanningText: {
+    marginLeft: 10,
+    fontSize: 14,
+    color: '#666',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 16,
+  },
+  selectAllRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingBottom: 10,
+  },
+  selectAllText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  selectionSummary: {
+    fontSize: 13,
+    color: '#666',
+  },
+  orphanRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  checkboxSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  thumbnail: {
+    width: 45,
+    height: 60,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  orphanInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  orphanName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  orphanDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    marginTop: 15,
+    gap: 10,
+  },
+  button: {
+    flex: 1,
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  inboxButton: {
+    backgroundColor: '#007AFF',
+  },
+  deleteButton: {
+    backgroundColor: '#FF3B30',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    marginRight: 10,
+  },
+  radioSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  optionLabelSelected: {
+    fontWeight: '600',
+  },
+});
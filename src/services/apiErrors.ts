@@ -0,0 +1,242 @@
+/**
+ * Typed errors raised by the Lunch Money API client
+ */
+
+// Transaction fields Lunch Money reports validation errors for
+const KNOWN_FIELDS = [
+  'date',
+  'amount',
+  'payee',
+  'currency',
+  'category_id',
+  'asset_id',
+  'plaid_account_id',
+  'external_id',
+  'notes',
+  'tags',
+  'status',
+] as const;
+
+export type UserFacingErrorAction = 'openSettings' | 'retry';
+
+export interface UserFacingError {
+  title: string;
+  message: string;
+  action?: UserFacingErrorAction;
+}
+
+export class LunchMoneyAPIError extends Error {
+  constructor(message: string, public status?: number, public body?: unknown) {
+    super(message);
+    this.name = 'LunchMoneyAPIError';
+  }
+}
+
+/**
+ * Missing, invalid or revoked API token (401/403)
+ */
+export class AuthenticationError extends LunchMoneyAPIError {
+  constructor(message: string, status?: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Request rejected because of invalid input. `fieldErrors` groups the messages by field where possible.
+ */
+export class ValidationError extends LunchMoneyAPIError {
+  constructor(
+    public messages: string[],
+    public fieldErrors: { [field: string]: string[] },
+    status?: number,
+    body?: unknown
+  ) {
+    super(messages.join(', ') || 'Invalid request', status, body);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Too many requests (429). `retryAfterSeconds` comes from the Retry-After header when present.
+ */
+export class RateLimitError extends LunchMoneyAPIError {
+  constructor(message: string, public retryAfterSeconds?: number, body?: unknown) {
+    super(message, 429, body);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Lunch Money failed to handle the request (5xx)
+ */
+export class ServerError extends LunchMoneyAPIError {
+  constructor(message: string, status?: number, body?: unknown) {
+    super(message, status, body);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request never reached Lunch Money (no connection, DNS failure, timeout)
+ */
+export class NetworkOfflineError extends LunchMoneyAPIError {
+  constructor(message: string = 'Network request failed') {
+    super(message);
+    this.name = 'NetworkOfflineError';
+  }
+}
+
+/**
+ * Normalise the different error shapes Lunch Money returns into a list of messages
+ */
+export const extractErrorMessages = (body: unknown): string[] => {
+  if (!body || typeof body !== 'object') {
+    return typeof body === 'string' && body.trim() ? [body.trim()] : [];
+  }
+
+  const data = body as { [key: string]: unknown };
+  const raw = data.error ?? data.errors ?? data.message;
+
+  if (Array.isArray(raw)) {
+    return raw.map((item) => String(item)).filter((item) => item.trim() !== '');
+  }
+  if (typeof raw === 'string' && raw.trim()) {
+    return [raw.trim()];
+  }
+  return [];
+};
+
+/**
+ * Group validation messages by the transaction field they mention
+ */
+export const extractFieldErrors = (messages: string[]): { [field: string]: string[] } => {
+  const fieldErrors: { [field: string]: string[] } = {};
+
+  messages.forEach((message) => {
+    const lower = message.toLowerCase();
+    const field = KNOWN_FIELDS.find((name) =>
+      new RegExp(`\\b${name.replace(/_/g, '[_ ]')}\\b`).test(lower)
+    );
+    const key = field || 'general';
+    fieldErrors[key] = [...(fieldErrors[key] || []), message];
+  });
+
+  return fieldErrors;
+};
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  return undefined;
+};
+
+/**
+ * Build the typed error matching an HTTP response
+ */
+export const createAPIError = (
+  status: number,
+  statusText: string,
+  body: unknown,
+  retryAfterHeader: string | null = null
+): LunchMoneyAPIError => {
+  const messages = extractErrorMessages(body);
+  const detail = messages.join(', ') || statusText || 'Unknown error';
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(`Lunch Money API error: ${status} ${detail}`, status, body);
+  }
+  if (status === 429) {
+    return new RateLimitError(`Lunch Money API error: 429 ${detail}`, parseRetryAfter(retryAfterHeader), body);
+  }
+  if (status >= 500) {
+    return new ServerError(`Lunch Money API error: ${status} ${detail}`, status, body);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(messages.length > 0 ? messages : [detail], extractFieldErrors(messages), status, body);
+  }
+  return new LunchMoneyAPIError(`Lunch Money API error: ${status} ${detail}`, status, body);
+};
+
+const FIELD_LABELS: { [field: string]: string } = {
+  date: 'Date',
+  amount: 'Amount',
+  payee: 'Payee',
+  currency: 'Currency',
+  category_id: 'Category',
+  asset_id: 'Account',
+  plaid_account_id: 'Account',
+  external_id: 'Reference',
+  notes: 'Notes',
+  tags: 'Tags',
+  status: 'Status',
+};
+
+/**
+ * Map any error to a short, actionable message for the UI
+ */
+export const getUserFacingError = (error: unknown): UserFacingError => {
+  if (error instanceof AuthenticationError) {
+    return {
+      title: 'Lunch Money Login Needed',
+      message: error.status === 403
+        ? 'Your API token does not have permission for this action. Update it in Settings.'
+        : 'Your API token is missing or no longer valid. Update it in Settings to keep syncing.',
+      action: 'openSettings',
+    };
+  }
+
+  if (error instanceof ValidationError) {
+    const lines = Object.entries(error.fieldErrors).flatMap(([field, messages]) =>
+      messages.map((message) => (FIELD_LABELS[field] ? `${FIELD_LABELS[field]}: ${message}` : message))
+    );
+    return {
+      title: 'Please Check Your Entry',
+      message: lines.length > 0 ? lines.join('\n') : error.message,
+    };
+  }
+
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterSeconds !== undefined
+      ? ` Try again in ${Math.max(1, Math.ceil(error.retryAfterSeconds))} seconds.`
+      : ' Try again in a moment.';
+    return {
+      title: 'Slow Down',
+      message: `Lunch Money is receiving too many requests.${wait}`,
+      action: 'retry',
+    };
+  }
+
+  if (error instanceof ServerError) {
+    return {
+      title: 'Lunch Money Unavailable',
+      message: 'Lunch Money is having trouble right now. Your data is safe - please try again later.',
+      action: 'retry',
+    };
+  }
+
+  if (error instanceof NetworkOfflineError) {
+    return {
+      title: 'You Are Offline',
+      message: 'Could not reach Lunch Money. Check your internet connection and try again.',
+      action: 'retry',
+    };
+  }
+
+  return {
+    title: 'Error',
+    message: error instanceof Error ? error.message : 'Unknown error occurred',
+  };
+};
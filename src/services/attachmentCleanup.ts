@@ -0,0 +1,258 @@
+import { File } from 'expo-file-system';
+import { Attachment, AttachmentPage } from '../types';
+import { SecureStorage } from '../utils/storage';
+import { getActiveProfileId } from '../utils/profileScope';
+import {
+  deleteAttachmentFiles,
+  getAttachmentFileUris,
+  getAttachmentIdFromFileName,
+  listAttachmentFiles,
+} from '../utils/attachmentFiles';
+import { useAppStore } from '../store/appStore';
+import { useCacheStore } from '../store/cacheStore';
+import { getLunchMoneyAPI } from './lunchMoneyAPI';
+import { LunchMoneyAPIError } from './apiErrors';
+import { fetchTransactionPages } from './transactionSync';
+import { INBOX_TRANSACTION_ID } from './receiptInbox';
+
+// Transaction ID the add form gives attachments before the transaction is saved
+const TEMP_TRANSACTION_ID = 'temp';
+
+// Files younger than this may belong to a form that is still open
+const MIN_UNTRACKED_FILE_AGE_MS = 60 * 60 * 1000;
+
+// Receipts are often attached a while after the purchase
+const TRANSACTION_LOOKUP_MARGIN_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ORPHAN_CLEANUP_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: 'Off' },
+  { days: 7, label: 'After 7 days' },
+  { days: 30, label: 'After 30 days' },
+  { days: 90, label: 'After 90 days' },
+];
+
+/**
+ * Why an attachment is considered orphaned:
+ * - abandoned: added to a form that was never saved
+ * - deletedTransaction: its transaction no longer exists in Lunch Money
+ * - untracked: a file in storage that no attachment refers to
+ */
+export type OrphanReason = 'abandoned' | 'deletedTransaction' | 'untracked';
+
+export interface OrphanedAttachment {
+  attachment: Attachment; // Rebuilt from the files themselves when untracked
+  reason: OrphanReason;
+  size: number;
+}
+
+export interface AttachmentStorageUsage {
+  totalSize: number; // Bytes used by all attachment files, thumbnails included
+  fileCount: number;
+  attachmentCount: number;
+}
+
+const MIME_TYPES: { [extension: string]: string } = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  pdf: 'application/pdf',
+};
+
+const isThumbnail = (file: File) => file.name.includes('_thumb');
+
+/**
+ * Rebuild an attachment from files nothing refers to, so it can be moved to the inbox
+ */
+const toUntrackedAttachment = (attachmentId: string, files: File[]): Attachment => {
+  const thumbnails = new Map(files.filter(isThumbnail).map((file) => [file.name.replace('_thumb', ''), file]));
+  const pageFiles = files
+    .filter((file) => !isThumbnail(file))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const pages: AttachmentPage[] = pageFiles.map((file) => ({
+    uri: file.uri,
+    thumbnailUri: thumbnails.get(file.name)?.uri,
+  }));
+  const mainFile = pageFiles[0] || files[0]; // Only a thumbnail may be left
+  const extension = mainFile.name.split('.').pop()!.toLowerCase();
+  const modified = Math.min(...files.map((file) => file.modificationTime || Date.now()));
+
+  return {
+    id: attachmentId,
+    transactionId: INBOX_TRANSACTION_ID,
+    uri: mainFile.uri,
+    thumbnailUri: pages[0]?.thumbnailUri,
+    pages: pages.length > 1 ? pages : undefined,
+    fileName: mainFile.name,
+    mimeType: MIME_TYPES[extension] || 'application/octet-stream',
+    size: files.reduce((total, file) => total + file.size, 0),
+    dateAdded: new Date(modified).toISOString(),
+  };
+};
+
+/**
+ * Whether Lunch Money confirms a transaction was deleted. Anything short of a 404
+ * (offline, rate limited, ...) leaves the attachment alone.
+ */
+const isTransactionDeleted = async (transactionId: string): Promise<boolean> => {
+  const id = Number(transactionId);
+  if (!Number.isInteger(id)) {
+    return false;
+  }
+
+  try {
+    await getLunchMoneyAPI().getTransaction(id);
+    return false;
+  } catch (error) {
+    return error instanceof LunchMoneyAPIError && error.status === 404;
+  }
+};
+
+/**
+ * IDs of the transactions in the period the attachments were added in, fetched a page at a
+ * time rather than one request per attachment
+ */
+const fetchExistingTransactionIds = async (attachments: Attachment[]): Promise<Set<string>> => {
+  const earliest = Math.min(...attachments.map((attachment) => Date.parse(attachment.dateAdded) || Date.now()));
+  const transactions = await fetchTransactionPages(getLunchMoneyAPI(), {
+    startDate: new Date(earliest - TRANSACTION_LOOKUP_MARGIN_DAYS * DAY_MS).toISOString().split('T')[0],
+    endDate: new Date().toISOString().split('T')[0],
+  });
+  return new Set(transactions.map((transaction) => String(transaction.id)));
+};
+
+/**
+ * How much space the active profile's attachments take up
+ */
+export const getAttachmentStorageUsage = async (): Promise<AttachmentStorageUsage> => {
+  const files = listAttachmentFiles();
+  const allAttachments = await SecureStorage.getAllAttachments();
+
+  return {
+    totalSize: files.reduce((total, file) => total + file.size, 0),
+    fileCount: files.length,
+    attachmentCount: Object.values(allAttachments).reduce((total, attachments) => total + attachments.length, 0),
+  };
+};
+
+/**
+ * Find attachments that no transaction will ever show. Transactions missing from the cache
+ * are looked up in Lunch Money first, since the cache only holds the synced months: the
+ * period the attachments were added in is fetched in pages, and only transactions still
+ * missing from it (deleted, or dated outside it) are checked one by one.
+ */
+export const findOrphanedAttachments = async (): Promise<OrphanedAttachment[]> => {
+  const allAttachments = await SecureStorage.getAllAttachments();
+  const cachedIds = new Set(useCacheStore.getState().transactions.map((transaction) => String(transaction.id)));
+  const orphans: OrphanedAttachment[] = [];
+
+  const uncached = Object.entries(allAttachments).filter(
+    ([transactionId]) =>
+      transactionId !== INBOX_TRANSACTION_ID && transactionId !== TEMP_TRANSACTION_ID && !cachedIds.has(transactionId)
+  );
+  if (uncached.length > 0) {
+    try {
+      const existingIds = await fetchExistingTransactionIds(uncached.flatMap(([, attachments]) => attachments));
+      existingIds.forEach((id) => cachedIds.add(id));
+    } catch (error) {
+      // Offline or rate limited - nothing can be confirmed deleted this time
+      console.error('Error fetching transactions for the orphan scan:', error);
+      uncached.forEach(([transactionId]) => cachedIds.add(transactionId));
+    }
+  }
+
+  for (const [transactionId, attachments] of Object.entries(allAttachments)) {
+    if (transactionId === INBOX_TRANSACTION_ID || cachedIds.has(transactionId)) {
+      continue;
+    }
+
+    let reason: OrphanReason | null = null;
+    if (transactionId === TEMP_TRANSACTION_ID) {
+      reason = 'abandoned';
+    } else if (await isTransactionDeleted(transactionId)) {
+      reason = 'deletedTransaction';
+    }
+
+    if (reason) {
+      attachments.forEach((attachment) => {
+        orphans.push({ attachment, reason: reason!, size: attachment.size });
+      });
+    }
+  }
+
+  const referencedUris = new Set(Object.values(allAttachments).flat().flatMap(getAttachmentFileUris));
+  const untrackedFiles = new Map<string, File[]>();
+  listAttachmentFiles()
+    .filter((file) => !referencedUris.has(file.uri))
+    .forEach((file) => {
+      const attachmentId = getAttachmentIdFromFileName(file.name);
+      untrackedFiles.set(attachmentId, [...(untrackedFiles.get(attachmentId) || []), file]);
+    });
+
+  untrackedFiles.forEach((files, attachmentId) => {
+    const isRecent = files.some((file) => Date.now() - (file.modificationTime || 0) < MIN_UNTRACKED_FILE_AGE_MS);
+    if (!isRecent) {
+      const attachment = toUntrackedAttachment(attachmentId, files);
+      orphans.push({ attachment, reason: 'untracked', size: attachment.size || 0 });
+    }
+  });
+
+  return orphans;
+};
+
+/**
+ * Delete orphaned attachments and their files
+ */
+export const deleteOrphanedAttachments = async (orphans: OrphanedAttachment[]): Promise<void> => {
+  for (const { attachment, reason } of orphans) {
+    if (reason === 'untracked') {
+      deleteAttachmentFiles(attachment);
+    } else {
+      await SecureStorage.removeTransactionAttachment(attachment.transactionId!, attachment.id);
+    }
+  }
+};
+
+/**
+ * Move orphaned attachments to the receipt inbox so they can be linked to another transaction
+ */
+export const moveOrphansToInbox = async (orphans: OrphanedAttachment[]): Promise<void> => {
+  for (const { attachment, reason } of orphans) {
+    if (reason === 'untracked') {
+      await SecureStorage.addTransactionAttachment({
+        ...attachment,
+        transactionId: INBOX_TRANSACTION_ID,
+        mimeType: attachment.mimeType!,
+        size: attachment.size || 0,
+      });
+    } else {
+      await SecureStorage.linkAttachmentToTransaction(attachment.id, INBOX_TRANSACTION_ID);
+    }
+  }
+};
+
+const automaticallyCleanedProfiles = new Set<string>();
+
+/**
+ * Apply the automatic cleanup setting once per profile and app session.
+ * Returns how many attachments were deleted.
+ */
+export const runAutomaticOrphanCleanup = async (): Promise<number> => {
+  const maxAgeDays = useAppStore.getState().settings.orphanCleanupDays;
+  const profileId = getActiveProfileId();
+  if (!maxAgeDays || automaticallyCleanedProfiles.has(profileId)) {
+    return 0;
+  }
+  automaticallyCleanedProfiles.add(profileId);
+
+  const cutoff = Date.now() - maxAgeDays * DAY_MS;
+  const expired = (await findOrphanedAttachments()).filter(
+    ({ attachment }) => Date.parse(attachment.dateAdded) < cutoff
+  );
+  await deleteOrphanedAttachments(expired);
+  if (expired.length > 0) {
+    console.log(`🧹 Deleted ${expired.length} orphaned attachment(s)`);
+  }
+  return expired.length;
+};
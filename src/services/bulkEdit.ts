@@ -0,0 +1,117 @@
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+import { getUserFacingError } from './apiErrors';
+
+// Transactions updated together; the API scheduler still bounds how many requests run at once
+const BATCH_SIZE = 10;
+
+export type BulkAction =
+  | { type: 'setCategory'; categoryId: number }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'removeTags'; tags: string[] }
+  | { type: 'setNotes'; notes: string }
+  | { type: 'markReviewed' };
+
+// Fields of a (processed) list transaction used by bulk actions
+export interface BulkEditableTransaction {
+  id?: number | string;
+  date: string;
+  tags?: (string | { name: string })[];
+}
+
+export interface BulkEditProgress {
+  done: number;
+  total: number;
+}
+
+export interface BulkEditFailure {
+  id: string;
+  message: string;
+}
+
+export interface BulkEditResult {
+  succeededIds: string[];
+  failed: BulkEditFailure[];
+}
+
+export const BULK_ACTION_LABELS: Record<BulkAction['type'], string> = {
+  setCategory: 'Updating categories',
+  addTags: 'Adding tags',
+  removeTags: 'Removing tags',
+  setNotes: 'Updating notes',
+  markReviewed: 'Marking reviewed',
+};
+
+const getTagNames = (transaction: BulkEditableTransaction): string[] => {
+  return (transaction.tags || []).map((tag) => (typeof tag === 'string' ? tag : tag.name));
+};
+
+const applyToTransaction = async (
+  api: LunchMoneyAPI,
+  transaction: BulkEditableTransaction,
+  action: BulkAction
+): Promise<void> => {
+  const id = Number(transaction.id);
+
+  switch (action.type) {
+    case 'setCategory':
+      await api.updateTransaction(id, { category_id: action.categoryId });
+      return;
+    case 'addTags': {
+      const current = getTagNames(transaction);
+      const missing = action.tags.filter((tag) => !current.includes(tag));
+      if (missing.length > 0) {
+        await api.setTransactionTags(id, [...current, ...missing]);
+      }
+      return;
+    }
+    case 'removeTags': {
+      const current = getTagNames(transaction);
+      const kept = current.filter((tag) => !action.tags.includes(tag));
+      if (kept.length !== current.length) {
+        await api.setTransactionTags(id, kept);
+      }
+      return;
+    }
+    case 'setNotes':
+      await api.updateTransaction(id, { notes: action.notes });
+      return;
+    case 'markReviewed':
+      await api.updateTransaction(id, { status: 'cleared' });
+      return;
+  }
+};
+
+/**
+ * Apply one action to many transactions, batch by batch. Failures don't stop the run;
+ * they are collected so the caller can report them and offer a retry.
+ */
+export const applyBulkAction = async (
+  api: LunchMoneyAPI,
+  transactions: BulkEditableTransaction[],
+  action: BulkAction,
+  onProgress?: (progress: BulkEditProgress) => void
+): Promise<BulkEditResult> => {
+  const result: BulkEditResult = { succeededIds: [], failed: [] };
+  let done = 0;
+  onProgress?.({ done, total: transactions.length });
+
+  for (let start = 0; start < transactions.length; start += BATCH_SIZE) {
+    const batch = transactions.slice(start, start + BATCH_SIZE);
+    const outcomes = await Promise.allSettled(batch.map((transaction) => applyToTransaction(api, transaction, action)));
+
+    outcomes.forEach((outcome, index) => {
+      const id = String(batch[index].id);
+      if (outcome.status === 'fulfilled') {
+        result.succeededIds.push(id);
+      } else {
+        console.error(`Bulk ${action.type} failed for transaction ${id}:`, outcome.reason);
+        result.failed.push({ id, message: getUserFacingError(outcome.reason).message });
+      }
+    });
+
+    done += batch.length;
+    onProgress?.({ done, total: transactions.length });
+  }
+
+  return result;
+};
@@ -1,17 +1,57 @@
-import { LunchMoneyTransaction, LunchMoneyCategory, LunchMoneyTag, LunchMoneyAsset } from '../types';
+import {
+  LunchMoneyTransaction,
+  LunchMoneyCategory,
+  LunchMoneyTag,
+  LunchMoneyAsset,
+  LunchMoneyPlaidAccount,
+  LunchMoneySplitItem,
+  LunchMoneyTransactionGroup,
+  LunchMoneyUser,
+} from '../types';
 import { SecureStorage } from '../utils/storage';
+import {
+  AuthenticationError,
+  LunchMoneyAPIError,
+  NetworkOfflineError,
+  ValidationError,
+  createAPIError,
+  extractErrorMessages,
+  extractFieldErrors,
+  getUserFacingError,
+} from './apiErrors';
+import { RequestScheduler, requestScheduler } from './requestScheduler';
 
-const LUNCH_MONEY_BASE_URL = 'https://dev-api.lunchmoney.app/v1';
+// Single base URL for every Lunch Money call, overridable through the environment
+export const LUNCH_MONEY_BASE_URL = process.env.EXPO_PUBLIC_LUNCH_MONEY_API_URL || 'https://dev.lunchmoney.app/v1';
+
+export interface CreateTransactionOptions {
+  reconcile?: boolean; // Look up the external_id first and skip the insert if it already exists
+  applyRules?: boolean;
+  checkForRecurring?: boolean;
+  debitAsNegative?: boolean;
+  skipBalanceUpdate?: boolean;
+}
 
 export class LunchMoneyAPI {
   private apiToken: string | null = null;
 
-  constructor(apiToken?: string) {
+  constructor(
+    apiToken?: string,
+    private baseUrl: string = LUNCH_MONEY_BASE_URL,
+    private scheduler: RequestScheduler = requestScheduler
+  ) {
     if (apiToken) {
       this.apiToken = apiToken;
     }
   }
 
+  /**
+   * Replace the token used for requests. Pass null to reload it from storage on the next call.
+   */
+  setApiToken(apiToken: string | null): void {
+    this.apiToken = apiToken;
+  }
+
   private async getApiToken(): Promise<string> {
     if (this.apiToken) {
       return this.apiToken;
@@ -19,7 +59,7 @@ export class LunchMoneyAPI {
 
     const storedToken = await SecureStorage.getLunchMoneyToken();
     if (!storedToken) {
-      throw new Error('No Lunch Money API token found. Please configure your token in settings.');
+      throw new AuthenticationError('No Lunch Money API token found. Please configure your token in settings.');
     }
 
     this.apiToken = storedToken;
@@ -27,10 +67,12 @@ export class LunchMoneyAPI {
   }
 
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${LUNCH_MONEY_BASE_URL}${endpoint}`;
+    const url = `${this.baseUrl}${endpoint}`;
     const apiToken = await this.getApiToken();
     
-    console.log('Making API request to:', url); // Debug log
+    if (__DEV__) {
+      console.log('Making API request to:', url);
+    }
     
     const headers = {
       'Authorization': `Bearer ${apiToken}`,
@@ -38,20 +80,56 @@ export class LunchMoneyAPI {
       ...options.headers,
     };
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
+    // Every call goes through the shared scheduler, which handles concurrency and 429 retries
+    const method = (options.method || 'GET').toUpperCase();
+    return this.scheduler.schedule(() => this.send<T>(url, { ...options, headers }), {
+      idempotent: method === 'GET',
     });
+  }
+
+  private async send<T>(url: string, options: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, options);
+    } catch (error) {
+      // fetch only rejects when the request could not be sent at all
+      if (__DEV__) {
+        console.error('API network error:', error);
+      }
+      throw new NetworkOfflineError(error instanceof Error ? error.message : undefined);
+    }
 
-    console.log('API response status:', response.status); // Debug log
+    if (__DEV__) {
+      console.log('API response status:', response.status);
+    }
+
+    const responseText = await response.text().catch(() => '');
+    let body: unknown = responseText;
+    try {
+      body = responseText ? JSON.parse(responseText) : null;
+    } catch {
+      // Keep the raw text for non-JSON bodies
+    }
 
     if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error');
-      console.error('API Error:', response.status, errorText); // Debug log
-      throw new Error(`Lunch Money API error: ${response.status} ${response.statusText}`);
+      if (__DEV__) {
+        console.error('API Error:', response.status, responseText);
+      }
+      throw createAPIError(response.status, response.statusText, body, response.headers.get('Retry-After'));
     }
 
-    return response.json();
+    // Lunch Money reports some validation failures with a 200 status and an `error` field
+    if (body && typeof body === 'object' && !Array.isArray(body) && 'error' in body) {
+      const messages = extractErrorMessages(body);
+      if (messages.length > 0) {
+        if (__DEV__) {
+          console.error('API Error:', response.status, responseText);
+        }
+        throw new ValidationError(messages, extractFieldErrors(messages), response.status, body);
+      }
+    }
+
+    return body as T;
   }
 
   // Transactions
@@ -61,6 +139,11 @@ export class LunchMoneyAPI {
     tag_id?: number;
     recurring_id?: number;
     plaid_account_id?: number;
+    category_id?: number;
+    asset_id?: number;
+    is_group?: boolean;
+    status?: string;
+    debit_as_negative?: boolean;
     limit?: number;
     offset?: number;
   }): Promise<LunchMoneyTransaction[]> {
@@ -78,20 +161,60 @@ export class LunchMoneyAPI {
     return response.transactions;
   }
 
-  async createTransaction(transaction: Omit<LunchMoneyTransaction, 'id'>): Promise<LunchMoneyTransaction> {
-    const response = await this.request<{ transaction_id: number }>('/transactions', {
+  /**
+   * Look up a transaction by its external_id around the given date
+   */
+  async findTransactionByExternalId(externalId: string, date: string): Promise<LunchMoneyTransaction | null> {
+    // Search a small window around the date in case the server normalised it
+    const day = new Date(`${date}T00:00:00Z`);
+    const toDateString = (offsetDays: number) =>
+      new Date(day.getTime() + offsetDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const transactions = await this.getTransactions({
+      start_date: toDateString(-1),
+      end_date: toDateString(1),
+    });
+    return transactions.find((t) => t.external_id === externalId) || null;
+  }
+
+  async getTransaction(id: number, params?: { debit_as_negative?: boolean }): Promise<LunchMoneyTransaction> {
+    const query = params?.debit_as_negative !== undefined ? `?debit_as_negative=${params.debit_as_negative}` : '';
+    return this.request<LunchMoneyTransaction>(`/transactions/${id}${query}`);
+  }
+
+  async createTransaction(
+    transaction: Omit<LunchMoneyTransaction, 'id'>,
+    options: CreateTransactionOptions = {}
+  ): Promise<LunchMoneyTransaction> {
+    // When retrying, check whether an earlier attempt already created this transaction
+    if (options.reconcile && transaction.external_id) {
+      const existing = await this.findTransactionByExternalId(transaction.external_id, transaction.date);
+      if (existing) {
+        if (__DEV__) {
+          console.log('Transaction already exists on server, skipping create:', transaction.external_id);
+        }
+        return existing;
+      }
+    }
+
+    const response = await this.request<{ ids: number[] }>('/transactions', {
       method: 'POST',
       body: JSON.stringify({
         transactions: [transaction],
-        apply_rules: true,
+        apply_rules: options.applyRules ?? true,
         skip_duplicates: false,
-        check_for_recurring: true,
-        debit_as_negative: true,
+        check_for_recurring: options.checkForRecurring ?? true,
+        debit_as_negative: options.debitAsNegative ?? true,
+        skip_balance_update: options.skipBalanceUpdate ?? false,
       }),
     });
 
+    if (!response.ids || response.ids.length === 0) {
+      throw new LunchMoneyAPIError('Transaction was not created - no IDs returned');
+    }
+
     // Return the created transaction with the ID
-    return { ...transaction, id: response.transaction_id };
+    return { ...transaction, id: response.ids[0] };
   }
 
   async updateTransaction(id: number, transaction: Partial<LunchMoneyTransaction>): Promise<boolean> {
@@ -102,6 +225,17 @@ export class LunchMoneyAPI {
     return true;
   }
 
+  /**
+   * Replace a transaction's tags. Names that don't exist yet are created as new tags.
+   */
+  async setTransactionTags(id: number, tags: (number | string)[]): Promise<boolean> {
+    await this.request(`/transactions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ transaction: { tags } }),
+    });
+    return true;
+  }
+
   async deleteTransaction(id: number): Promise<boolean> {
     await this.request(`/transactions/${id}`, {
       method: 'DELETE',
@@ -109,6 +243,53 @@ export class LunchMoneyAPI {
     return true;
   }
 
+  /**
+   * Split a transaction into several child transactions
+   * Returns the IDs of the created split children
+   */
+  async splitTransaction(id: number, split: LunchMoneySplitItem[]): Promise<number[]> {
+    const response = await this.request<{ updated: boolean; split?: number[] }>(`/transactions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ transaction: {}, split }),
+    });
+    return response.split || [];
+  }
+
+  /**
+   * Remove the splits of the given parent transactions
+   */
+  async unsplitTransactions(parentIds: number[], removeParents: boolean = false): Promise<number[]> {
+    return this.request<number[]>('/transactions/unsplit', {
+      method: 'POST',
+      body: JSON.stringify({ parent_ids: parentIds, remove_parents: removeParents }),
+    });
+  }
+
+  // Transaction groups
+  async getTransactionGroup(transactionId: number): Promise<LunchMoneyTransaction> {
+    return this.request<LunchMoneyTransaction>(`/transactions/group?transaction_id=${transactionId}`);
+  }
+
+  /**
+   * Group existing transactions together. Returns the ID of the new group transaction.
+   */
+  async createTransactionGroup(group: LunchMoneyTransactionGroup): Promise<number> {
+    return this.request<number>('/transactions/group', {
+      method: 'POST',
+      body: JSON.stringify(group),
+    });
+  }
+
+  /**
+   * Dissolve a transaction group. Returns the IDs of the transactions that were in it.
+   */
+  async deleteTransactionGroup(groupId: number): Promise<number[]> {
+    const response = await this.request<{ transactions: number[] }>(`/transactions/group/${groupId}`, {
+      method: 'DELETE',
+    });
+    return response.transactions || [];
+  }
+
   // Categories
   async getCategories(): Promise<LunchMoneyCategory[]> {
     const response = await this.request<{ categories: LunchMoneyCategory[] }>('/categories');
@@ -117,8 +298,8 @@ export class LunchMoneyAPI {
 
   // Tags
   async getTags(): Promise<LunchMoneyTag[]> {
-    const response = await this.request<{ tags: LunchMoneyTag[] }>('/tags');
-    return response.tags;
+    // The tags endpoint returns a bare array
+    return this.request<LunchMoneyTag[]>('/tags');
   }
 
   // Assets (accounts)
@@ -127,15 +308,31 @@ export class LunchMoneyAPI {
     return response.assets;
   }
 
+  // Plaid accounts (bank-connected accounts)
+  async getPlaidAccounts(): Promise<LunchMoneyPlaidAccount[]> {
+    const response = await this.request<{ plaid_accounts: LunchMoneyPlaidAccount[] }>('/plaid_accounts');
+    return response.plaid_accounts;
+  }
+
+  async getMe(): Promise<LunchMoneyUser> {
+    return this.request<LunchMoneyUser>('/me');
+  }
+
   // User info / validation
   async validateToken(): Promise<boolean> {
     try {
-      console.log('Validating token with /me endpoint'); // Debug log
-      const response = await this.request('/me');
-      console.log('Token validation successful:', response); // Debug log
+      if (__DEV__) {
+        console.log('Validating token with /me endpoint');
+      }
+      await this.getMe();
+      if (__DEV__) {
+        console.log('Token validation successful');
+      }
       return true;
     } catch (error) {
-      console.log('Token validation failed:', error); // Debug log
+      if (__DEV__) {
+        console.log('Token validation failed:', error);
+      }
       return false;
     }
   }
@@ -164,12 +361,12 @@ export const isAPIConfigured = async (): Promise<boolean> => {
 export const testAPIConnection = async (): Promise<{ success: boolean; error?: string }> => {
   try {
     const api = getLunchMoneyAPI();
-    const isValid = await api.validateToken();
-    return { success: isValid, error: isValid ? undefined : 'Invalid API token' };
+    await api.getMe();
+    return { success: true };
   } catch (error) {
     return { 
       success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error occurred' 
+      error: getUserFacingError(error).message,
     };
   }
 };
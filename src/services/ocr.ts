@@ -0,0 +1,78 @@
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { ReceiptSuggestions } from '../types';
+import { parseReceiptLines } from './receiptParser';
+
+export interface OcrLine {
+  text: string;
+  top?: number; // Vertical position in the image, used to restore reading order
+  left?: number;
+}
+
+export interface OcrResult {
+  text: string;
+  lines: OcrLine[];
+}
+
+/**
+ * Text recognition backend. Swap it with `setOcrEngine` (e.g. for a cloud engine or in tests).
+ */
+export interface OcrEngine {
+  name: string;
+  recognize: (imageUri: string) => Promise<OcrResult>;
+}
+
+/**
+ * On-device engine using Google ML Kit; works offline
+ */
+export const mlKitOcrEngine: OcrEngine = {
+  name: 'ML Kit',
+  recognize: async (imageUri) => {
+    const result = await TextRecognition.recognize(imageUri);
+    const lines: OcrLine[] = result.blocks.flatMap((block) =>
+      block.lines.map((line) => ({
+        text: line.text,
+        top: line.frame?.top,
+        left: line.frame?.left,
+      }))
+    );
+    return { text: result.text, lines };
+  },
+};
+
+let activeOcrEngine: OcrEngine = mlKitOcrEngine;
+
+export const getOcrEngine = (): OcrEngine => activeOcrEngine;
+
+export const setOcrEngine = (engine: OcrEngine): void => {
+  activeOcrEngine = engine;
+};
+
+// Blocks come back in detection order; sort lines top to bottom, then left to right
+const sortLines = (lines: OcrLine[]): OcrLine[] =>
+  [...lines].sort((a, b) => {
+    if (a.top === undefined || b.top === undefined) return 0;
+    const rowDiff = a.top - b.top;
+    if (Math.abs(rowDiff) > 8) return rowDiff;
+    return (a.left ?? 0) - (b.left ?? 0);
+  });
+
+/**
+ * Recognise the text on a receipt image and suggest transaction fields from it.
+ * Pages of a multi-page receipt are read in order and parsed as one text.
+ */
+export const extractReceiptSuggestions = async (
+  imageUris: string | string[],
+  engine: OcrEngine = activeOcrEngine
+): Promise<ReceiptSuggestions> => {
+  const lines: string[] = [];
+  for (const imageUri of Array.isArray(imageUris) ? imageUris : [imageUris]) {
+    const result = await engine.recognize(imageUri);
+    lines.push(...(result.lines.length > 0
+      ? sortLines(result.lines).map((line) => line.text)
+      : result.text.split(/\r?\n/)));
+  }
+
+  const suggestions = parseReceiptLines(lines);
+  console.log(`🧾 ${engine.name} receipt suggestions:`, suggestions);
+  return { ...suggestions, text: lines.join('\n') };
+};
@@ -0,0 +1,166 @@
+import { OutboxItem } from '../types';
+import { useAppStore } from '../store/appStore';
+import { LunchMoneyAPI, getLunchMoneyAPI } from './lunchMoneyAPI';
+import { AuthenticationError, LunchMoneyAPIError, ValidationError, getUserFacingError } from './apiErrors';
+import { archiveDeletedTransactionData } from './transactionDeletion';
+
+export interface OutboxSyncResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+const DEFAULT_AUTO_SYNC_INTERVAL_MS = 30 * 1000;
+
+let activeSync: Promise<OutboxSyncResult> | null = null;
+let activeSyncForced = false;
+// Forced run requested while a regular one was active; starts once that one finishes
+let queuedForcedSync: Promise<OutboxSyncResult> | null = null;
+
+/**
+ * Whether an outbox item should be attempted now (respects its backoff schedule).
+ * Blocked items are only sent again once the user retries them.
+ */
+export const isOutboxItemDue = (item: OutboxItem, now: number = Date.now()): boolean => {
+  return item.status !== 'syncing' && item.status !== 'blocked' && new Date(item.nextAttemptAt).getTime() <= now;
+};
+
+/**
+ * Failures that sending the same item again won't fix
+ */
+const isPermanentFailure = (error: unknown): boolean => {
+  return error instanceof ValidationError || error instanceof AuthenticationError;
+};
+
+/**
+ * Send a single outbox item to Lunch Money
+ */
+const sendOutboxItem = async (api: LunchMoneyAPI, item: OutboxItem): Promise<void> => {
+  switch (item.operation) {
+    case 'create':
+      if (!item.transaction) {
+        throw new Error('Queued transaction is missing its payload');
+      }
+      // Reconcile by external_id first: a previous attempt may have reached the server
+      await api.createTransaction(item.transaction, { reconcile: true });
+      return;
+    case 'update':
+      if (item.transactionId === undefined || !item.changes) {
+        throw new Error('Queued update is missing its transaction ID or changes');
+      }
+      await api.updateTransaction(item.transactionId, item.changes);
+      return;
+    case 'delete':
+      if (item.transactionId === undefined) {
+        throw new Error('Queued delete is missing its transaction ID');
+      }
+      try {
+        await api.deleteTransaction(item.transactionId);
+      } catch (error) {
+        // Already gone, e.g. deleted on another device - nothing left to do
+        if (!(error instanceof LunchMoneyAPIError && error.status === 404)) {
+          throw error;
+        }
+      }
+      // The receipts were kept in place until the deletion actually happened
+      await archiveDeletedTransactionData(String(item.transactionId)).catch((error) =>
+        console.error(`Error archiving data of deleted transaction ${item.transactionId}:`, error)
+      );
+      return;
+  }
+};
+
+const runOutboxSync = async (api: LunchMoneyAPI, force: boolean): Promise<OutboxSyncResult> => {
+  const store = useAppStore.getState();
+  const now = Date.now();
+  const dueItems = store.outbox.filter((item) =>
+    force ? item.status !== 'syncing' && item.status !== 'blocked' : isOutboxItemDue(item, now)
+  );
+
+  let synced = 0;
+  let failed = 0;
+
+  if (dueItems.length > 0) {
+    store.updateSyncStatus({ isSyncing: true });
+  }
+
+  // Items are sent one at a time, in queue order, and removed as soon as they succeed
+  for (const item of dueItems) {
+    store.markOutboxItemSyncing(item.clientId);
+    try {
+      await sendOutboxItem(api, item);
+      store.removeOutboxItem(item.clientId);
+      synced++;
+    } catch (error) {
+      console.error(`Outbox item ${item.clientId} failed:`, error);
+      if (isPermanentFailure(error)) {
+        store.markOutboxItemBlocked(item.clientId, getUserFacingError(error).message);
+      } else {
+        store.markOutboxItemFailed(item.clientId, getUserFacingError(error).message);
+      }
+      failed++;
+    }
+  }
+
+  if (dueItems.length > 0) {
+    store.updateSyncStatus({
+      isSyncing: false,
+      ...(synced > 0 ? { lastSync: new Date().toISOString() } : {}),
+    });
+  }
+
+  return { synced, failed, remaining: useAppStore.getState().outbox.length };
+};
+
+/**
+ * Sync queued transactions with Lunch Money.
+ * Only items whose backoff has elapsed are attempted unless `force` is set
+ * (e.g. when the user taps "Sync Now"). Concurrent calls share the same run,
+ * except a forced call during a regular run, which runs again right after it.
+ */
+export const syncOutbox = (
+  api: LunchMoneyAPI = getLunchMoneyAPI(),
+  { force = false }: { force?: boolean } = {}
+): Promise<OutboxSyncResult> => {
+  if (!activeSync) {
+    activeSyncForced = force;
+    activeSync = runOutboxSync(api, force).finally(() => {
+      activeSync = null;
+      activeSyncForced = false;
+    });
+    return activeSync;
+  }
+
+  if (!force || activeSyncForced) {
+    return activeSync;
+  }
+
+  // The active run skips backed-off items, so the forced run can't share it
+  if (!queuedForcedSync) {
+    queuedForcedSync = activeSync
+      .catch(() => undefined)
+      .then(() => {
+        queuedForcedSync = null;
+        return syncOutbox(api, { force: true });
+      });
+  }
+  return queuedForcedSync;
+};
+
+/**
+ * Periodically attempt due outbox items. Returns a function that stops the timer.
+ */
+export const startOutboxAutoSync = (
+  intervalMs: number = DEFAULT_AUTO_SYNC_INTERVAL_MS
+): (() => void) => {
+  const tick = () => {
+    const { outbox } = useAppStore.getState();
+    if (outbox.some((item) => isOutboxItemDue(item))) {
+      syncOutbox().catch((error) => console.error('Outbox auto-sync failed:', error));
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,154 @@
+import { Profile } from '../types';
+import { SecureStorage } from '../utils/storage';
+import { DEFAULT_PROFILE_ID, getActiveProfileId, setActiveProfileId, scopeStorageKey } from '../utils/profileScope';
+import { generateClientId } from '../utils/ids';
+import { useAppStore, APP_STORE_NAME } from '../store/appStore';
+import { useCacheStore, CACHE_STORE_NAME } from '../store/cacheStore';
+import { LunchMoneyAPI, getLunchMoneyAPI } from './lunchMoneyAPI';
+import { AuthenticationError } from './apiErrors';
+
+const DEFAULT_PROFILE_NAME = 'Personal';
+
+let initialization: Promise<Profile> | null = null;
+let profileGeneration = 0;
+
+/**
+ * Incremented on every profile switch. Work started under an older generation belongs to the
+ * previous profile and must not write its results into the active one.
+ */
+export const getProfileGeneration = (): number => profileGeneration;
+
+export interface ProfileSyncContext {
+  profileId: string;
+  api: LunchMoneyAPI; // Keeps this profile's token, unlike the shared client
+}
+
+/**
+ * The active profile with an API client of its own, for work spanning many requests (a sync)
+ * that must finish with the same profile's token and storage even if the user switches meanwhile
+ */
+export const getProfileSyncContext = async (): Promise<ProfileSyncContext> => {
+  const profileId = getActiveProfileId();
+  const token = await SecureStorage.getLunchMoneyToken();
+  if (!token) {
+    throw new AuthenticationError('No Lunch Money API token found. Please configure your token in settings.');
+  }
+  return { profileId, api: new LunchMoneyAPI(token) };
+};
+
+/**
+ * Point the persisted stores at the profile's storage and load its data
+ */
+const loadProfileStores = async (profileId: string): Promise<void> => {
+  useAppStore.persist.setOptions({ name: scopeStorageKey(APP_STORE_NAME, profileId) });
+  useCacheStore.persist.setOptions({ name: scopeStorageKey(CACHE_STORE_NAME, profileId) });
+  await Promise.all([useAppStore.persist.rehydrate(), useCacheStore.persist.rehydrate()]);
+};
+
+const activateProfile = async (profileId: string): Promise<void> => {
+  setActiveProfileId(profileId);
+  await loadProfileStores(profileId);
+  getLunchMoneyAPI().setApiToken(await SecureStorage.getLunchMoneyToken());
+};
+
+/**
+ * Get all profiles, creating the default one on first use
+ */
+export const getProfiles = async (): Promise<Profile[]> => {
+  const profiles = await SecureStorage.getProfiles();
+  if (profiles.length > 0) {
+    return profiles;
+  }
+
+  const defaultProfile: Profile = {
+    id: DEFAULT_PROFILE_ID,
+    name: DEFAULT_PROFILE_NAME,
+    createdAt: new Date().toISOString(),
+  };
+  await SecureStorage.setProfiles([defaultProfile]);
+  return [defaultProfile];
+};
+
+/**
+ * Restore the profile that was active last time and hydrate its stores.
+ * Must finish before anything reads per-profile data; concurrent callers share the same run.
+ */
+export const initializeProfiles = (): Promise<Profile> => {
+  if (!initialization) {
+    initialization = (async () => {
+      const profiles = await getProfiles();
+      const savedId = await SecureStorage.getActiveProfileId();
+      const profile = profiles.find((p) => p.id === savedId) || profiles[0];
+
+      await activateProfile(profile.id);
+      console.log(`👤 Active profile: ${profile.name}`);
+      return profile;
+    })().catch((error) => {
+      initialization = null;
+      throw error;
+    });
+  }
+  return initialization;
+};
+
+export const getActiveProfile = async (): Promise<Profile | null> => {
+  const profiles = await getProfiles();
+  return profiles.find((p) => p.id === getActiveProfileId()) || null;
+};
+
+/**
+ * Add a new, empty profile. It has no token until one is saved while it is active.
+ */
+export const createProfile = async (name: string): Promise<Profile> => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Profile name is required');
+  }
+
+  const profiles = await getProfiles();
+  if (profiles.some((p) => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A profile named "${trimmed}" already exists`);
+  }
+
+  const profile: Profile = { id: generateClientId(), name: trimmed, createdAt: new Date().toISOString() };
+  await SecureStorage.setProfiles([...profiles, profile]);
+  return profile;
+};
+
+/**
+ * Make another profile active. Its token, cached data, preferences and outbox are loaded in place
+ * of the current profile's.
+ */
+export const switchProfile = async (profileId: string): Promise<Profile> => {
+  await initializeProfiles();
+
+  const profiles = await getProfiles();
+  const profile = profiles.find((p) => p.id === profileId);
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+  if (useAppStore.getState().syncStatus.isSyncing) {
+    throw new Error('Please wait for the current sync to finish before switching profiles');
+  }
+
+  profileGeneration++;
+  await SecureStorage.setActiveProfileId(profile.id);
+  await activateProfile(profile.id);
+  console.log(`👤 Switched to profile: ${profile.name}`);
+  return profile;
+};
+
+/**
+ * Delete an inactive profile together with everything stored for it
+ */
+export const deleteProfile = async (profileId: string): Promise<void> => {
+  if (profileId === getActiveProfileId()) {
+    throw new Error('Switch to another profile before deleting this one');
+  }
+
+  const profiles = await getProfiles();
+  await SecureStorage.removeProfileData(profileId);
+  useAppStore.persist.getOptions().storage?.removeItem(scopeStorageKey(APP_STORE_NAME, profileId));
+  useCacheStore.persist.getOptions().storage?.removeItem(scopeStorageKey(CACHE_STORE_NAME, profileId));
+  await SecureStorage.setProfiles(profiles.filter((p) => p.id !== profileId));
+};
@@ -0,0 +1,196 @@
+import JSZip from 'jszip';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { LunchMoneyCategory, LunchMoneyTransaction } from '../types';
+import { SecureStorage } from '../utils/storage';
+import { getAttachmentPages } from '../utils/attachmentFiles';
+import { useCacheStore } from '../store/cacheStore';
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+import { DateRange, fetchTransactionPages } from './transactionSync';
+
+const MAX_PAYEE_LENGTH = 40; // Keeps file names readable in archive tools
+
+export interface ReceiptExportFilters extends DateRange {
+  categoryIds?: number[]; // Only these categories; empty or missing = all
+  tags?: string[]; // Only transactions with at least one of these tag names
+}
+
+export interface ReceiptExportResult {
+  uri: string;
+  transactionCount: number;
+  fileCount: number;
+  missingFileCount: number; // Attachments whose file could no longer be read
+  fromCache: boolean; // The server couldn't be reached, so only synced months were searched
+}
+
+interface ReceiptIndexEntry {
+  transaction_id: number;
+  date: string;
+  payee: string;
+  amount: string;
+  currency: string;
+  category: string;
+  tags: string[];
+  notes: string;
+  files: string[];
+  missing_files: string[];
+}
+
+const INDEX_COLUMNS: (keyof ReceiptIndexEntry)[] = [
+  'transaction_id',
+  'date',
+  'payee',
+  'amount',
+  'currency',
+  'category',
+  'tags',
+  'notes',
+  'files',
+  'missing_files',
+];
+
+const toFileNamePart = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, MAX_PAYEE_LENGTH) || 'unknown';
+};
+
+const getExtension = (fileName: string, uri: string): string => {
+  const source = fileName.includes('.') ? fileName : uri;
+  return source.split('.').pop()!.toLowerCase();
+};
+
+const toCsvValue = (value: ReceiptIndexEntry[keyof ReceiptIndexEntry]): string => {
+  const text = Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (entries: ReceiptIndexEntry[]): string => {
+  const rows = entries.map((entry) => INDEX_COLUMNS.map((column) => toCsvValue(entry[column])).join(','));
+  return [INDEX_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+/**
+ * Transactions in the range, fetched from Lunch Money so months that were never synced are
+ * included. Falls back to the cache when offline.
+ */
+const getTransactionsInRange = async (
+  api: LunchMoneyAPI,
+  range: DateRange
+): Promise<{ transactions: LunchMoneyTransaction[]; fromCache: boolean }> => {
+  try {
+    return { transactions: await fetchTransactionPages(api, range), fromCache: false };
+  } catch (error) {
+    console.error('Error fetching transactions for export, using cache:', error);
+    const cached = useCacheStore
+      .getState()
+      .transactions.filter((t) => t.date >= range.startDate && t.date <= range.endDate);
+    return { transactions: cached, fromCache: true };
+  }
+};
+
+const matchesFilters = (transaction: LunchMoneyTransaction, filters: ReceiptExportFilters): boolean => {
+  if (filters.categoryIds?.length && !filters.categoryIds.includes(transaction.category_id!)) {
+    return false;
+  }
+  if (filters.tags?.length && !transaction.tags?.some((tag) => filters.tags!.includes(tag.name))) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Bundle the attachments of every matching transaction into a ZIP, named
+ * `date_payee_amount`, with an index of the transactions as CSV and JSON
+ */
+export const createReceiptArchive = async (
+  api: LunchMoneyAPI,
+  filters: ReceiptExportFilters,
+  categories: LunchMoneyCategory[] = []
+): Promise<ReceiptExportResult> => {
+  const allAttachments = await SecureStorage.getAllAttachments();
+  const { transactions, fromCache } = await getTransactionsInRange(api, filters);
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+
+  const matching = transactions
+    .filter((t) => t.id !== undefined && allAttachments[String(t.id)]?.length && matchesFilters(t, filters))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const zip = new JSZip();
+  const usedNames = new Set<string>(); // Base names already given to a transaction
+  const index: ReceiptIndexEntry[] = [];
+  let fileCount = 0;
+  let missingFileCount = 0;
+
+  for (const transaction of matching) {
+    const amount = Math.abs(parseFloat(transaction.amount)).toFixed(2);
+    const name = `${transaction.date}_${toFileNamePart(transaction.payee)}_${amount}`;
+    let baseName = name;
+    // Two transactions can share date, payee and amount
+    for (let copy = 2; usedNames.has(baseName); copy++) {
+      baseName = `${name}_${copy}`;
+    }
+    usedNames.add(baseName);
+    const entry: ReceiptIndexEntry = {
+      transaction_id: transaction.id!,
+      date: transaction.date,
+      payee: transaction.payee,
+      amount,
+      currency: (transaction.currency || '').toUpperCase(),
+      category: transaction.category_id ? categoryNames.get(transaction.category_id) || '' : '',
+      tags: (transaction.tags || []).map((tag) => tag.name),
+      notes: transaction.notes || '',
+      files: [],
+      missing_files: [],
+    };
+
+    const pages = allAttachments[String(transaction.id)].flatMap((attachment) =>
+      getAttachmentPages(attachment).map((page) => ({ uri: page.uri, fileName: attachment.fileName }))
+    );
+    for (const [pageIndex, page] of pages.entries()) {
+      const extension = getExtension(page.fileName, page.uri);
+      const fileName = pages.length > 1 ? `${baseName}_p${pageIndex + 1}.${extension}` : `${baseName}.${extension}`;
+
+      try {
+        zip.file(fileName, await new File(page.uri).bytes());
+        entry.files.push(fileName);
+        fileCount++;
+      } catch (error) {
+        console.error('Error reading attachment for export:', error);
+        entry.missing_files.push(page.fileName);
+        missingFileCount++;
+      }
+    }
+
+    index.push(entry);
+  }
+
+  zip.file('index.csv', toCsv(index));
+  zip.file('index.json', JSON.stringify(index, null, 2));
+
+  const archive = new File(Paths.cache, `receipts_${filters.startDate}_${filters.endDate}.zip`);
+  if (archive.exists) {
+    archive.delete();
+  }
+  archive.create();
+  archive.write(await zip.generateAsync({ type: 'uint8array' }));
+
+  return { uri: archive.uri, transactionCount: index.length, fileCount, missingFileCount, fromCache };
+};
+
+/**
+ * Hand a finished archive to the share sheet (mail, drive, messaging, ...)
+ */
+export const shareReceiptArchive = async (uri: string): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/zip',
+    UTI: 'public.zip-archive',
+    dialogTitle: 'Export Receipts',
+  });
+};
@@ -0,0 +1,157 @@
+import { Attachment, ReceiptSuggestions } from '../types';
+import { SecureStorage } from '../utils/storage';
+import { getAttachmentKind, getAttachmentPages } from '../utils/attachmentFiles';
+import { extractReceiptSuggestions } from './ocr';
+
+// Attachments filed under this transaction ID are receipts waiting for their transaction
+export const INBOX_TRANSACTION_ID = 'inbox';
+
+const MIN_MATCH_SCORE = 0.5;
+// Without a read amount (documents, failed recognition) the date is the main signal:
+// transactions up to 2 days from the receipt's date still qualify
+const MIN_MATCH_SCORE_WITHOUT_AMOUNT = 0.2;
+const MAX_MATCHES = 3;
+const DAYS_BEFORE_RECEIPT = 1; // Card purchases are sometimes dated the day before (time zones)
+const DAYS_AFTER_RECEIPT = 5; // ...and usually post within a few days
+const MAX_TIP_RATIO = 0.25; // A card total can be higher than the receipt by the tip
+
+// Weights of each signal in the match score (sum to 1)
+const AMOUNT_WEIGHT = 0.5;
+const DATE_WEIGHT = 0.3;
+const PAYEE_WEIGHT = 0.2;
+
+export interface MatchableTransaction {
+  id?: number | string;
+  date: string;
+  amount: string;
+  payee?: string;
+  original_name?: string;
+  currency?: string;
+}
+
+export interface ReceiptMatch<T extends MatchableTransaction = MatchableTransaction> {
+  transaction: T;
+  score: number; // 0-1
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(to.substring(0, 10)) - Date.parse(from.substring(0, 10))) / DAY_MS);
+};
+
+const bigrams = (text: string): string[] => {
+  const normalized = text.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < normalized.length - 1; i++) {
+    pairs.push(normalized.substring(i, i + 2));
+  }
+  return pairs;
+};
+
+/**
+ * How alike two payee names are (0-1), comparing letter pairs so "STARBUCKS #1234" still
+ * resembles "Starbucks"
+ */
+export const payeeSimilarity = (a?: string, b?: string): number => {
+  if (!a || !b) return 0;
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+
+  const remaining = [...pairsB];
+  let shared = 0;
+  pairsA.forEach((pair) => {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+
+  const dice = (2 * shared) / (pairsA.length + pairsB.length);
+  // A short name fully contained in a longer one (e.g. a store number suffix) is a strong hint
+  const containment = shared / Math.min(pairsA.length, pairsB.length);
+  return Math.max(dice, containment * 0.9);
+};
+
+/**
+ * Score how likely a transaction is the one a receipt belongs to, or null if it can't be.
+ * The receipt's own date is used when it was read, otherwise the day it was captured.
+ */
+export const scoreReceiptMatch = (
+  receipt: Pick<Attachment, 'dateAdded' | 'receiptData'>,
+  transaction: MatchableTransaction
+): number | null => {
+  const data: ReceiptSuggestions = receipt.receiptData || {};
+
+  if (data.currency && transaction.currency && data.currency.value !== transaction.currency.toLowerCase()) {
+    return null;
+  }
+
+  const days = daysBetween(data.date?.value || receipt.dateAdded, transaction.date);
+  if (isNaN(days) || days < -DAYS_BEFORE_RECEIPT || days > DAYS_AFTER_RECEIPT) {
+    return null;
+  }
+  let score = DATE_WEIGHT * (1 - Math.abs(days) / (DAYS_AFTER_RECEIPT + 1));
+
+  if (data.amount) {
+    const receiptAmount = parseFloat(data.amount.value);
+    const transactionAmount = Math.abs(parseFloat(transaction.amount));
+    const difference = transactionAmount - receiptAmount;
+    if (Math.abs(difference) < 0.005) {
+      score += AMOUNT_WEIGHT;
+    } else if (difference > 0 && difference <= receiptAmount * MAX_TIP_RATIO) {
+      score += AMOUNT_WEIGHT * 0.4;
+    } else {
+      return null;
+    }
+  }
+
+  score += PAYEE_WEIGHT * Math.max(
+    payeeSimilarity(data.payee?.value, transaction.payee),
+    payeeSimilarity(data.payee?.value, transaction.original_name)
+  );
+
+  return Math.round(score * 100) / 100;
+};
+
+/**
+ * Best candidate transactions for an inbox receipt, most likely first. Transactions that
+ * already have attachments are skipped. Receipts without an amount are matched mostly on
+ * their date, so they need a lower score.
+ */
+export const findReceiptMatches = <T extends MatchableTransaction>(
+  receipt: Pick<Attachment, 'dateAdded' | 'receiptData'>,
+  transactions: T[],
+  attachedTransactionIds: Set<string> = new Set()
+): ReceiptMatch<T>[] => {
+  const minScore = receipt.receiptData?.amount ? MIN_MATCH_SCORE : MIN_MATCH_SCORE_WITHOUT_AMOUNT;
+  return transactions
+    .filter((transaction) => transaction.id !== undefined && !attachedTransactionIds.has(String(transaction.id)))
+    .map((transaction) => ({ transaction, score: scoreReceiptMatch(receipt, transaction) }))
+    .filter((match): match is ReceiptMatch<T> => match.score !== null && match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+};
+
+/**
+ * Read a receipt that was just added to the inbox and keep what was found for matching.
+ * Documents that aren't images are matched on capture date alone.
+ */
+export const readInboxReceipt = async (attachment: Attachment): Promise<ReceiptSuggestions | null> => {
+  if (getAttachmentKind(attachment.mimeType) !== 'image') {
+    return null;
+  }
+
+  const receiptData = await extractReceiptSuggestions(getAttachmentPages(attachment).map((page) => page.uri));
+  await SecureStorage.setAttachmentReceiptData(attachment.id, receiptData);
+  return receiptData;
+};
+
+/**
+ * Attach an inbox receipt to the transaction it was matched with
+ */
+export const linkInboxReceipt = async (attachmentId: string, transactionId: string | number): Promise<void> => {
+  await SecureStorage.linkAttachmentToTransaction(attachmentId, String(transactionId));
+};
@@ -0,0 +1,312 @@
+import { ReceiptField, ReceiptFieldConfidence, ReceiptSuggestions } from '../types';
+
+/**
+ * Heuristic parser that turns OCR text from a receipt into transaction suggestions.
+ * Every field carries a confidence between 0 and 1 so the UI can flag guesses.
+ */
+
+interface AmountCandidate {
+  value: number;
+  confidence: number;
+  lineIndex: number;
+}
+
+interface CurrencyPattern {
+  pattern: RegExp;
+  code: string;
+  confidence: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amounts always have two decimals on receipts; thousands may be separated by ',' or '.'.
+// Digits right before an amount (card numbers, quantities) never join it.
+const AMOUNT_PATTERN = /(?<![\d.,])(\d{1,3}(?:[.,]\d{3})+|\d+)([.,]\d{2})(?![.,]?\d)/g;
+
+// Same, also reading a space as the thousands separator when the decimal mark is a comma
+// ("1 234,56 €", including the no-break spaces of French receipts). Only used for labelled
+// totals: elsewhere "2 150,00" is more likely a quantity and a price than 2150.00.
+const SPACE_GROUPED_AMOUNT_PATTERN =
+  /(?<![\d.,])(\d{1,3}(?:[.,]\d{3})+|\d{1,3}(?:[\u0020\u00A0\u202F]\d{3})+(?=,\d{2})|\d+)([.,]\d{2})(?![.,]?\d)/g;
+
+// Lines that name the grand total, strongest first
+const TOTAL_KEYWORDS: { pattern: RegExp; confidence: number }[] = [
+  {
+    pattern: /\b(grand\s*total|total\s*(due|to\s*pay|amount|ttc)|amount\s*due|balance\s*due|montant\s*(total|ttc)|net\s*a\s*payer|gesamtbetrag|zu\s*zahlen|importe\s*total)\b/i,
+    confidence: 0.95,
+  },
+  { pattern: /\b(total|summe|gesamt|totale|montant)\b/i, confidence: 0.85 },
+  { pattern: /\b(visa|mastercard|amex|debit|credit\s*card|card\s*payment|paid|payment)\b/i, confidence: 0.6 },
+];
+
+// Amount lines that are never the grand total
+const EXCLUDED_AMOUNT_PATTERN = /\b(sub\s*-?\s*total|tax|vat|tva|mwst|iva|gst|hst|pst|tip|gratuity|discount|savings|you\s*saved|change|rendu|cash|tendered|rounding|points|items?|qty)\b/i;
+const SUBTOTAL_PATTERN = /\bsub\s*-?\s*total\b/i;
+const TAX_PATTERN = /\b(tax|vat|tva|mwst|iva|gst|hst|pst)\b/i;
+
+const CURRENCY_PATTERNS: CurrencyPattern[] = [
+  { pattern: /\b(USD|EUR|GBP|CAD|AUD|NZD|CHF|JPY|SEK|NOK|DKK|PLN|CZK|MXN|BRL|INR|ZAR|SGD|HKD|MAD)\b/, code: '', confidence: 0.95 },
+  { pattern: /US\$/, code: 'usd', confidence: 0.9 },
+  { pattern: /CA?\$/, code: 'cad', confidence: 0.85 },
+  { pattern: /A\$/, code: 'aud', confidence: 0.85 },
+  { pattern: /NZ\$/, code: 'nzd', confidence: 0.85 },
+  { pattern: /R\$/, code: 'brl', confidence: 0.85 },
+  { pattern: /€/, code: 'eur', confidence: 0.9 },
+  { pattern: /£/, code: 'gbp', confidence: 0.9 },
+  { pattern: /₹/, code: 'inr', confidence: 0.9 },
+  { pattern: /\bDHS?\b/i, code: 'mad', confidence: 0.7 },
+  { pattern: /¥/, code: 'jpy', confidence: 0.6 },
+  { pattern: /\$/, code: 'usd', confidence: 0.5 }, // Many currencies use '$'
+];
+
+const MONTHS: { [name: string]: number } = {
+  jan: 1, janv: 1, feb: 2, fev: 2, 'fév': 2, mar: 3, mars: 3, apr: 4, avr: 4, may: 5, mai: 5,
+  jun: 6, juin: 6, jul: 7, juil: 7, aug: 8, aou: 8, 'aoû': 8, sep: 9, sept: 9, oct: 10,
+  nov: 11, dec: 12, 'déc': 12,
+};
+const MONTH_NAME = '(janv?|f[eé]v|feb|mars?|apr|avr|may|mai|juin?|juil?|jul|aug|ao[uû]|sept?|oct|nov|d[eé]c)[a-zéû]*\\.?';
+
+const ISO_DATE_PATTERN = /\b(20\d{2})[-/.](\d{1,2})[-/.](\d{1,2})\b/;
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/;
+const DAY_MONTH_NAME_PATTERN = new RegExp(`\\b(\\d{1,2})\\s*${MONTH_NAME}\\s*,?\\s*(\\d{4}|\\d{2})\\b`, 'i');
+const MONTH_NAME_DAY_PATTERN = new RegExp(`\\b${MONTH_NAME}\\s*(\\d{1,2}),?\\s*(\\d{4})\\b`, 'i');
+const TIME_PATTERN = /\b([01]?\d|2[0-3])[:h]([0-5]\d)(?::[0-5]\d)?\s*([ap])?\.?(m\.?)?(?!\d)/i;
+const DATE_KEYWORD_PATTERN = /\b(date|datum|fecha|le)\b/i;
+
+// Lines near the top of a receipt that are not the merchant name
+const NON_MERCHANT_PATTERN = /(receipt|invoice|facture|ticket|welcome|bienvenue|thank|merci|\btel\b|phone|fax|www\.|http|@|\bvat\b|\btva\b|siret|siren|\bice\b|order|table|server|cashier|caissier|\bdate\b|\btime\b|store\s*#|\bstreet\b|\bst\.|\bave\b|avenue|\broad\b|\brd\.|\brue\b|\bblvd\b|boulevard)/i;
+
+const clampConfidence = (confidence: number): number => Math.max(0, Math.min(0.99, confidence));
+
+const field = <T>(value: T, confidence: number): ReceiptField<T> => ({
+  value,
+  confidence: Math.round(clampConfidence(confidence) * 100) / 100,
+});
+
+/**
+ * Bucket a confidence score for display
+ */
+export const getConfidenceLevel = (confidence: number): ReceiptFieldConfidence => {
+  if (confidence >= 0.8) return 'high';
+  if (confidence >= 0.5) return 'medium';
+  return 'low';
+};
+
+// Dates and times contain digit groups that would otherwise be read as amounts
+const stripDatesAndTimes = (line: string): string =>
+  line
+    .replace(new RegExp(ISO_DATE_PATTERN.source, 'g'), ' ')
+    .replace(new RegExp(NUMERIC_DATE_PATTERN.source, 'g'), ' ')
+    .replace(new RegExp(TIME_PATTERN.source, 'gi'), ' ');
+
+const findAmounts = (line: string, allowSpaceGrouping: boolean = false): number[] => {
+  const amounts: number[] = [];
+  const matches = stripDatesAndTimes(line).matchAll(allowSpaceGrouping ? SPACE_GROUPED_AMOUNT_PATTERN : AMOUNT_PATTERN);
+  for (const match of matches) {
+    const integerPart = match[1].replace(/[.,\u0020\u00A0\u202F]/g, '');
+    const value = parseFloat(`${integerPart}.${match[2].substring(1)}`);
+    if (!isNaN(value)) {
+      amounts.push(value);
+    }
+  }
+  return amounts;
+};
+
+const lastAmount = (line: string, allowSpaceGrouping: boolean = false): number | undefined => {
+  const amounts = findAmounts(line, allowSpaceGrouping);
+  return amounts.length > 0 ? amounts[amounts.length - 1] : undefined;
+};
+
+const findTotal = (lines: string[]): ReceiptField<string> | undefined => {
+  const candidates: AmountCandidate[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    if (EXCLUDED_AMOUNT_PATTERN.test(line)) return;
+    const keyword = TOTAL_KEYWORDS.find((k) => k.pattern.test(line));
+    if (!keyword) return;
+
+    let value = lastAmount(line, true);
+    let confidence = keyword.confidence;
+
+    // OCR often splits the label and its amount into separate lines
+    const nextLine = lines[lineIndex + 1];
+    if (value === undefined && nextLine && !EXCLUDED_AMOUNT_PATTERN.test(nextLine)) {
+      value = lastAmount(nextLine, true);
+      confidence -= 0.1;
+    }
+
+    if (value !== undefined && value > 0) {
+      candidates.push({ value, confidence, lineIndex });
+    }
+  });
+
+  let best = candidates.sort(
+    (a, b) => b.confidence - a.confidence || b.value - a.value || b.lineIndex - a.lineIndex
+  )[0];
+
+  if (!best) {
+    // No labelled total - fall back to the largest amount that isn't change, tax, etc.
+    const amounts = lines
+      .filter((line) => !EXCLUDED_AMOUNT_PATTERN.test(line))
+      .flatMap((line) => findAmounts(line))
+      .filter((value) => value > 0);
+    if (amounts.length === 0) return undefined;
+    best = { value: Math.max(...amounts), confidence: 0.4, lineIndex: -1 };
+  }
+
+  // Cross-check against subtotal + tax when both are printed
+  const subtotal = lines.filter((line) => SUBTOTAL_PATTERN.test(line)).map((line) => lastAmount(line, true)).pop();
+  const tax = lines
+    .filter((line) => TAX_PATTERN.test(line) && !SUBTOTAL_PATTERN.test(line))
+    .map((line) => lastAmount(line, true))
+    .reduce<number>((sum, value) => sum + (value || 0), 0);
+
+  let confidence = best.confidence;
+  if (subtotal !== undefined) {
+    if (Math.abs(subtotal + tax - best.value) < 0.015) {
+      confidence = Math.max(confidence, 0.98);
+    } else if (best.value < subtotal) {
+      confidence -= 0.2;
+    }
+  }
+
+  return field(best.value.toFixed(2), confidence);
+};
+
+const findCurrency = (text: string): ReceiptField<string> | undefined => {
+  for (const { pattern, code, confidence } of CURRENCY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return field((code || match[1]).toLowerCase(), confidence);
+    }
+  }
+  return undefined;
+};
+
+const toFullYear = (year: string): number => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const isValid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return isValid ? date : null;
+};
+
+const findDate = (lines: string[], currency?: string): ReceiptField<string> | undefined => {
+  const today = Date.now();
+  let best: ReceiptField<string> | undefined;
+
+  lines.forEach((line) => {
+    let date: Date | null = null;
+    let confidence = 0;
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(ISO_DATE_PATTERN))) {
+      date = buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+      confidence = 0.9;
+    } else if ((match = line.match(DAY_MONTH_NAME_PATTERN))) {
+      const month = MONTHS[match[2].toLowerCase().substring(0, 4)] || MONTHS[match[2].toLowerCase().substring(0, 3)];
+      date = month ? buildDate(toFullYear(match[3]), month, Number(match[1])) : null;
+      confidence = 0.9;
+    } else if ((match = line.match(MONTH_NAME_DAY_PATTERN))) {
+      const month = MONTHS[match[1].toLowerCase().substring(0, 4)] || MONTHS[match[1].toLowerCase().substring(0, 3)];
+      date = month ? buildDate(Number(match[3]), month, Number(match[2])) : null;
+      confidence = 0.9;
+    } else if ((match = line.match(NUMERIC_DATE_PATTERN))) {
+      const first = Number(match[1]);
+      const second = Number(match[2]);
+      const year = toFullYear(match[3]);
+      if (first > 12 || first === second) {
+        date = buildDate(year, second, first);
+        confidence = 0.85;
+      } else if (second > 12) {
+        date = buildDate(year, first, second);
+        confidence = 0.85;
+      } else {
+        // Ambiguous: US receipts put the month first, most others the day
+        date = currency === 'usd' ? buildDate(year, first, second) : buildDate(year, second, first);
+        confidence = 0.55;
+      }
+    }
+
+    if (!date) return;
+
+    const age = today - date.getTime();
+    if (age < -DAY_MS) {
+      confidence *= 0.5; // In the future
+    } else if (age > 2 * 365 * DAY_MS) {
+      confidence *= 0.6; // Unusually old for a new receipt
+    }
+    if (DATE_KEYWORD_PATTERN.test(line)) {
+      confidence += 0.05;
+    }
+
+    if (!best || confidence > best.confidence) {
+      best = field(date.toISOString().split('T')[0], confidence);
+    }
+  });
+
+  return best;
+};
+
+const findTime = (lines: string[]): ReceiptField<string> | undefined => {
+  for (const line of lines) {
+    const match = line.match(TIME_PATTERN);
+    if (!match) continue;
+
+    let hours = Number(match[1]);
+    const minutes = match[2];
+    const meridiem = match[3]?.toLowerCase();
+    if (meridiem === 'p' && hours < 12) hours += 12;
+    if (meridiem === 'a' && hours === 12) hours = 0;
+
+    const hasDate = ISO_DATE_PATTERN.test(line) || NUMERIC_DATE_PATTERN.test(line);
+    return field(`${hours.toString().padStart(2, '0')}:${minutes}`, hasDate ? 0.85 : 0.75);
+  }
+  return undefined;
+};
+
+const toTitleCase = (text: string): string =>
+  text.toLowerCase().replace(/(^|[\s'&-])(\S)/g, (_, separator, letter) => separator + letter.toUpperCase());
+
+const findPayee = (lines: string[]): ReceiptField<string> | undefined => {
+  const header = lines.slice(0, 6);
+
+  for (let index = 0; index < header.length; index++) {
+    const line = header[index].replace(/\s+/g, ' ').trim();
+    const letters = line.replace(/[^a-zA-ZÀ-ÿ]/g, '');
+
+    if (letters.length < 3 || letters.length / line.length < 0.5) continue;
+    if (/^\d/.test(line)) continue; // Street addresses
+    if (NON_MERCHANT_PATTERN.test(line)) continue;
+    if (findAmounts(line).length > 0 || TIME_PATTERN.test(line)) continue;
+
+    const name = line === line.toUpperCase() ? toTitleCase(line) : line;
+    return field(name, index <= 1 ? 0.75 : 0.55);
+  }
+  return undefined;
+};
+
+/**
+ * Extract the grand total, merchant, date, time and currency from recognised receipt lines
+ * (top to bottom)
+ */
+export const parseReceiptLines = (lines: string[]): ReceiptSuggestions => {
+  const cleanLines = lines.map((line) => line.trim()).filter((line) => line.length > 0);
+  const currency = findCurrency(cleanLines.join('\n'));
+
+  const suggestions: ReceiptSuggestions = {
+    amount: findTotal(cleanLines),
+    payee: findPayee(cleanLines),
+    date: findDate(cleanLines, currency?.value),
+    time: findTime(cleanLines),
+    currency,
+  };
+
+  // Drop fields that weren't found
+  (Object.keys(suggestions) as (keyof ReceiptSuggestions)[]).forEach((key) => {
+    if (!suggestions[key]) delete suggestions[key];
+  });
+  return suggestions;
+};
+
+export const parseReceiptText = (text: string): ReceiptSuggestions => parseReceiptLines(text.split(/\r?\n/));
@@ -0,0 +1,231 @@
+import { File } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Attachment, ReimbursementStatus } from '../types';
+import { SecureStorage } from '../utils/storage';
+import { getAttachmentKind, getAttachmentPages } from '../utils/attachmentFiles';
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+
+// Tag added in Lunch Money once an expense has been paid back
+export const REIMBURSED_TAG = 'Reimbursed';
+
+export const REIMBURSEMENT_STATUS_LABELS: Record<ReimbursementStatus, string> = {
+  pending: 'Pending',
+  submitted: 'Submitted',
+  reimbursed: 'Reimbursed',
+};
+
+// Fields of a processed (display) transaction used in reports
+export interface ReimbursableTransaction {
+  id?: number | string;
+  date: string;
+  payee?: string;
+  amount: string | number;
+  currency?: string;
+  category_name?: string;
+  notes?: string;
+  tags?: (string | { name: string })[];
+}
+
+export interface MarkReimbursedResult {
+  reimbursedIds: string[];
+  failedIds: string[]; // Could not be tagged in Lunch Money, so their status is unchanged
+}
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const formatAmount = (amount: number, currency?: string): string => {
+  return `${amount.toFixed(2)} ${(currency || '').toUpperCase()}`.trim();
+};
+
+const getTagNames = (transaction: ReimbursableTransaction): string[] => {
+  return (transaction.tags || []).map((tag) => (typeof tag === 'string' ? tag : tag.name));
+};
+
+/**
+ * Set or clear (null) the reimbursement status of transactions
+ */
+export const setReimbursementStatus = async (
+  transactionIds: (number | string)[],
+  status: ReimbursementStatus | null
+): Promise<void> => {
+  await SecureStorage.setTransactionReimbursements(transactionIds.map(String), status);
+};
+
+/**
+ * Mark transactions as paid back: tag them in Lunch Money, then record the status locally.
+ * Transactions that fail to update keep their current status so they can be retried.
+ */
+export const markReimbursed = async (
+  api: LunchMoneyAPI,
+  transactions: ReimbursableTransaction[]
+): Promise<MarkReimbursedResult> => {
+  const reimbursedIds: string[] = [];
+  const failedIds: string[] = [];
+
+  for (const transaction of transactions) {
+    const id = String(transaction.id);
+    try {
+      const tags = getTagNames(transaction);
+      if (!tags.includes(REIMBURSED_TAG)) {
+        await api.setTransactionTags(Number(transaction.id), [...tags, REIMBURSED_TAG]);
+      }
+      reimbursedIds.push(id);
+    } catch (error) {
+      console.error(`Error tagging transaction ${id} as reimbursed:`, error);
+      failedIds.push(id);
+    }
+  }
+
+  if (reimbursedIds.length > 0) {
+    await SecureStorage.setTransactionReimbursements(reimbursedIds, 'reimbursed');
+  }
+  return { reimbursedIds, failedIds };
+};
+
+/**
+ * Images embedded for an attachment: every page of a photo or scan, or the preview of a PDF.
+ * Other documents can't be embedded and are listed by name instead.
+ */
+const toReceiptImages = async (attachment: Attachment): Promise<string[]> => {
+  const kind = getAttachmentKind(attachment.mimeType);
+  const uris =
+    kind === 'image'
+      ? getAttachmentPages(attachment).map((page) => page.uri)
+      : attachment.thumbnailUri
+        ? [attachment.thumbnailUri]
+        : [];
+
+  const images: string[] = [];
+  for (const uri of uris) {
+    try {
+      const mimeType = kind === 'image' && attachment.mimeType ? attachment.mimeType : 'image/jpeg';
+      images.push(`data:${mimeType};base64,${await new File(uri).base64()}`);
+    } catch (error) {
+      console.error('Error reading receipt for expense report:', error);
+    }
+  }
+  return images;
+};
+
+const buildReportHtml = async (
+  title: string,
+  transactions: ReimbursableTransaction[],
+  attachments: { [transactionId: string]: Attachment[] }
+): Promise<string> => {
+  const totals = new Map<string, number>();
+  transactions.forEach((transaction) => {
+    const currency = (transaction.currency || '').toUpperCase();
+    totals.set(currency, (totals.get(currency) || 0) + parseFloat(String(transaction.amount)));
+  });
+
+  const rows = transactions
+    .map(
+      (transaction, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(transaction.date.substring(0, 10))}</td>
+          <td>${escapeHtml(transaction.payee || '')}</td>
+          <td>${escapeHtml(transaction.category_name || '')}</td>
+          <td class="amount">${formatAmount(parseFloat(String(transaction.amount)), transaction.currency)}</td>
+          <td>${(attachments[String(transaction.id)] || []).length}</td>
+        </tr>`
+    )
+    .join('');
+
+  const totalRows = Array.from(totals.entries())
+    .map(([currency, total]) => `<tr><td>${escapeHtml(currency || '—')}</td><td class="amount">${formatAmount(total, currency)}</td></tr>`)
+    .join('');
+
+  const receiptSections: string[] = [];
+  for (const [index, transaction] of transactions.entries()) {
+    const transactionAttachments = attachments[String(transaction.id)] || [];
+    const content: string[] = [];
+    for (const attachment of transactionAttachments) {
+      const images = await toReceiptImages(attachment);
+      content.push(
+        images.length > 0
+          ? images.map((image) => `<img src="${image}" />`).join('')
+          : `<p class="missing">${escapeHtml(attachment.fileName)} (not embedded)</p>`
+      );
+    }
+    receiptSections.push(`
+      <section class="receipt">
+        <h2>${index + 1}. ${escapeHtml(transaction.payee || '')}</h2>
+        <p class="details">
+          ${escapeHtml(transaction.date.substring(0, 10))} ·
+          ${formatAmount(parseFloat(String(transaction.amount)), transaction.currency)}
+          ${transaction.notes ? ` · ${escapeHtml(transaction.notes)}` : ''}
+        </p>
+        ${content.length > 0 ? content.join('') : '<p class="missing">No receipt attached</p>'}
+      </section>`);
+  }
+
+  return `
+    <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <style>
+          body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #333; padding: 24px; }
+          h1 { font-size: 22px; margin-bottom: 4px; }
+          h2 { font-size: 16px; margin-bottom: 4px; }
+          .generated, .details { color: #666; font-size: 12px; }
+          table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px; }
+          th, td { border-bottom: 1px solid #ddd; padding: 6px 4px; text-align: left; }
+          th { background: #f5f5f5; }
+          .amount { text-align: right; white-space: nowrap; }
+          .totals { width: 50%; margin-left: auto; }
+          .receipt { page-break-before: always; }
+          .receipt img { display: block; max-width: 100%; max-height: 900px; margin: 12px auto; }
+          .missing { color: #999; font-style: italic; }
+        </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(title)}</h1>
+        <p class="generated">Generated ${new Date().toLocaleDateString()} · ${transactions.length} expense(s)</p>
+        <table>
+          <tr><th>#</th><th>Date</th><th>Payee</th><th>Category</th><th class="amount">Amount</th><th>Receipts</th></tr>
+          ${rows}
+        </table>
+        <table class="totals">
+          <tr><th>Currency</th><th class="amount">Total</th></tr>
+          ${totalRows}
+        </table>
+        ${receiptSections.join('')}
+      </body>
+    </html>`;
+};
+
+/**
+ * Render an expense report PDF: a summary table, totals per currency and every receipt
+ * embedded from local attachments. Returns the PDF's URI.
+ */
+export const createExpenseReport = async (
+  transactions: ReimbursableTransaction[],
+  title: string = 'Expense Report'
+): Promise<string> => {
+  const attachments = await SecureStorage.getAllAttachments();
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const { uri } = await Print.printToFileAsync({ html: await buildReportHtml(title, sorted, attachments) });
+  return uri;
+};
+
+/**
+ * Hand a finished report to the share sheet
+ */
+export const shareExpenseReport = async (uri: string): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: 'Share Expense Report',
+  });
+};
@@ -0,0 +1,119 @@
+import { NetworkOfflineError, RateLimitError, ServerError } from './apiErrors';
+import { getBackoffDelay, withJitter } from '../utils/backoff';
+
+export interface RequestSchedulerOptions {
+  concurrency: number; // Maximum number of requests in flight at once
+  maxRetries: number; // Retries after the first attempt
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+interface ScheduledRequest {
+  run: () => Promise<void>; // Settles the caller's promise with the task's outcome
+}
+
+const DEFAULT_OPTIONS: RequestSchedulerOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseRetryDelayMs: 1000,
+  maxRetryDelayMs: 30 * 1000,
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Queues API requests with bounded concurrency.
+ * A 429 pauses the whole queue for the Retry-After period and the request is retried;
+ * idempotent requests are also retried with jittered backoff on server and network errors.
+ */
+export class RequestScheduler {
+  private options: RequestSchedulerOptions;
+  private queue: ScheduledRequest[] = [];
+  private active = 0;
+  private pausedUntil = 0;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: Partial<RequestSchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Update the scheduler configuration. Applies to requests started after the call.
+   */
+  configure(options: Partial<RequestSchedulerOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.drain();
+  }
+
+  schedule<T>(task: () => Promise<T>, { idempotent = false }: { idempotent?: boolean } = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        run: () => this.runWithRetries(task, idempotent).then(resolve, reject),
+      });
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    while (this.active < this.options.concurrency && this.queue.length > 0) {
+      const wait = this.pausedUntil - Date.now();
+      if (wait > 0) {
+        // Rate limited - resume once the Retry-After window has passed
+        if (!this.resumeTimer) {
+          this.resumeTimer = setTimeout(() => {
+            this.resumeTimer = null;
+            this.drain();
+          }, wait);
+        }
+        return;
+      }
+
+      const request = this.queue.shift()!;
+      this.active++;
+      request
+        .run()
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private shouldRetry(error: unknown, idempotent: boolean): boolean {
+    // A 429 means the request was not processed, so it is safe to resend any method
+    if (error instanceof RateLimitError) {
+      return true;
+    }
+    return idempotent && (error instanceof ServerError || error instanceof NetworkOfflineError);
+  }
+
+  private async runWithRetries<T>(task: () => Promise<T>, idempotent: boolean): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt > this.options.maxRetries || !this.shouldRetry(error, idempotent)) {
+          throw error;
+        }
+
+        let delay = withJitter(getBackoffDelay(attempt, this.options.baseRetryDelayMs, this.options.maxRetryDelayMs));
+        if (error instanceof RateLimitError) {
+          if (error.retryAfterSeconds !== undefined) {
+            delay = error.retryAfterSeconds * 1000;
+          }
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        }
+
+        // Never retry before a rate-limit pause set by another request has ended
+        delay = Math.max(delay, this.pausedUntil - Date.now());
+        if (__DEV__) {
+          console.log(`Retrying request in ${delay}ms (attempt ${attempt + 1})`);
+        }
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+// Shared by every API client so the whole app respects the same limits
+export const requestScheduler = new RequestScheduler();
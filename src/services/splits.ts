@@ -0,0 +1,126 @@
+import { LunchMoneySplitItem } from '../types';
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+
+// One part of a split transaction, as edited in the form
+export interface SplitLine {
+  key: string;
+  amount: string;
+  categoryId: number | null; // null = same category as the transaction
+  notes: string;
+  tags: string[];
+}
+
+// Fields of a (processed) transaction needed to rebuild its split
+export interface SplitChildTransaction {
+  id?: number | string;
+  parent_id?: number;
+  amount: string | number;
+  category_id?: number;
+  notes?: string;
+  tags?: (string | { name: string })[];
+}
+
+export interface SplitDetails {
+  date: string;
+  payee?: string;
+  categoryId?: number; // Used by lines without a category of their own
+}
+
+let lineCounter = 0;
+
+export const createSplitLine = (line: Partial<Omit<SplitLine, 'key'>> = {}): SplitLine => ({
+  key: `split_${Date.now()}_${lineCounter++}`,
+  amount: '',
+  categoryId: null,
+  notes: '',
+  tags: [],
+  ...line,
+});
+
+const toCents = (amount: string | number): number => {
+  const value = parseFloat(String(amount));
+  return isNaN(value) ? 0 : Math.round(Math.abs(value) * 100);
+};
+
+/**
+ * Amount still to be allocated to a line, in the transaction's currency units.
+ * Negative when the lines add up to more than the total.
+ */
+export const getSplitRemaining = (total: string | number, lines: SplitLine[]): number => {
+  const allocated = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+  return (toCents(total) - allocated) / 100;
+};
+
+/**
+ * Errors preventing the lines from being submitted (empty when valid)
+ */
+export const validateSplitLines = (total: string | number, lines: SplitLine[]): string[] => {
+  const errors: string[] = [];
+  if (lines.length < 2) {
+    errors.push('A split needs at least two lines');
+  }
+  if (lines.some((line) => toCents(line.amount) === 0)) {
+    errors.push('Every split line needs an amount greater than 0');
+  }
+  const remaining = getSplitRemaining(total, lines);
+  if (remaining !== 0) {
+    errors.push(
+      remaining > 0
+        ? `${remaining.toFixed(2)} is not allocated to a split line yet`
+        : `Split lines exceed the total by ${Math.abs(remaining).toFixed(2)}`
+    );
+  }
+  return errors;
+};
+
+/**
+ * The other parts of the split a transaction belongs to, including itself, in creation order
+ */
+export const getSplitSiblings = <T extends SplitChildTransaction>(transaction: T, transactions: T[]): T[] => {
+  if (!transaction.parent_id) {
+    return [];
+  }
+  return transactions
+    .filter((t) => t.parent_id === transaction.parent_id)
+    .sort((a, b) => Number(a.id) - Number(b.id));
+};
+
+export const toSplitLines = (transactions: SplitChildTransaction[]): SplitLine[] => {
+  return transactions.map((transaction) =>
+    createSplitLine({
+      amount: Math.abs(parseFloat(String(transaction.amount))).toFixed(2),
+      categoryId: transaction.category_id ?? null,
+      notes: transaction.notes || '',
+      tags: (transaction.tags || []).map((tag) => (typeof tag === 'string' ? tag : tag.name)),
+    })
+  );
+};
+
+/**
+ * Split a transaction into the given lines. The split API doesn't take tags, so lines with tags
+ * are tagged once their transactions exist. Returns the IDs of the new split transactions.
+ */
+export const submitSplit = async (
+  api: LunchMoneyAPI,
+  parentId: number,
+  lines: SplitLine[],
+  details: SplitDetails
+): Promise<number[]> => {
+  const split: LunchMoneySplitItem[] = lines.map((line) => ({
+    amount: (toCents(line.amount) / 100).toFixed(2),
+    date: details.date,
+    payee: details.payee,
+    category_id: line.categoryId ?? details.categoryId,
+    notes: line.notes.trim() || undefined,
+  }));
+
+  const childIds = await api.splitTransaction(parentId, split);
+
+  for (const [index, childId] of childIds.entries()) {
+    const tags = lines[index]?.tags || [];
+    if (tags.length > 0) {
+      await api.setTransactionTags(childId, tags);
+    }
+  }
+  return childIds;
+};
@@ -0,0 +1,99 @@
+import { SecureStorage } from '../utils/storage';
+import { useAppStore } from '../store/appStore';
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+import { LunchMoneyAPIError, NetworkOfflineError, getUserFacingError } from './apiErrors';
+import { INBOX_TRANSACTION_ID } from './receiptInbox';
+
+// How long a deletion can be undone before it is sent to Lunch Money
+export const DELETE_UNDO_WINDOW_MS = 5000;
+
+export type DeletionOutcome = 'deleted' | 'queued';
+
+export interface DeletionResult {
+  deletedIds: string[];
+  queuedIds: string[]; // Offline - deleted (and archived) by the outbox once the connection is back
+  failed: { id: string; message: string }[];
+}
+
+// Fields of a (processed) list transaction needed to tell whether it can be deleted
+export interface DeletableTransaction {
+  id?: number | string;
+  date: string;
+  is_group?: boolean;
+  parent_id?: number;
+}
+
+/**
+ * Why a transaction can't be deleted on its own, or null when it can
+ */
+export const getDeletionBlocker = (transaction: DeletableTransaction): string | null => {
+  if (!transaction.id) return 'is not synced yet';
+  if (transaction.is_group) return 'is a group - ungroup it first';
+  if (transaction.parent_id) return 'is part of a split - edit the split instead';
+  return null;
+};
+
+/**
+ * Local data of a deleted transaction: receipts are archived to the inbox, where they can be
+ * attached to another transaction or removed from the storage screen; metadata is dropped.
+ */
+export const archiveDeletedTransactionData = async (transactionId: string): Promise<void> => {
+  const attachments = await SecureStorage.getTransactionAttachments(transactionId);
+  for (const attachment of attachments) {
+    await SecureStorage.linkAttachmentToTransaction(attachment.id, INBOX_TRANSACTION_ID);
+  }
+  await SecureStorage.removeTransactionMetadata(transactionId);
+  await SecureStorage.setTransactionReimbursements([transactionId], null);
+};
+
+/**
+ * Delete a transaction in Lunch Money, or queue the deletion in the outbox when offline.
+ * A transaction that is already gone counts as deleted.
+ */
+export const deleteTransactionOrQueue = async (api: LunchMoneyAPI, transactionId: number): Promise<DeletionOutcome> => {
+  try {
+    await api.deleteTransaction(transactionId);
+    return 'deleted';
+  } catch (error) {
+    if (error instanceof NetworkOfflineError) {
+      useAppStore.getState().enqueueOutboxItem({ operation: 'delete', transactionId });
+      return 'queued';
+    }
+    if (error instanceof LunchMoneyAPIError && error.status === 404) {
+      return 'deleted';
+    }
+    throw error;
+  }
+};
+
+/**
+ * Delete transactions whose undo window has passed, archiving the local data of each one
+ * that is deleted. Failures are collected rather than stopping the run.
+ */
+export const deleteTransactions = async (api: LunchMoneyAPI, transactionIds: string[]): Promise<DeletionResult> => {
+  const result: DeletionResult = { deletedIds: [], queuedIds: [], failed: [] };
+
+  const outcomes = await Promise.allSettled(transactionIds.map((id) => deleteTransactionOrQueue(api, Number(id))));
+  for (const [index, outcome] of outcomes.entries()) {
+    const id = transactionIds[index];
+    if (outcome.status === 'rejected') {
+      console.error(`Error deleting transaction ${id}:`, outcome.reason);
+      result.failed.push({ id, message: getUserFacingError(outcome.reason).message });
+      continue;
+    }
+
+    if (outcome.value === 'queued') {
+      result.queuedIds.push(id);
+      continue;
+    }
+
+    result.deletedIds.push(id);
+    try {
+      await archiveDeletedTransactionData(id);
+    } catch (error) {
+      // The transaction is gone either way; leftovers are picked up by the storage cleanup
+      console.error(`Error archiving data of deleted transaction ${id}:`, error);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,84 @@
+import { SecureStorage } from '../utils/storage';
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+
+// Fields of a (processed) list transaction needed to group or ungroup it
+export interface GroupableTransaction {
+  id?: number | string;
+  date: string;
+  is_group?: boolean;
+  group_id?: number;
+  has_children?: boolean;
+  is_pending?: boolean;
+  group_children?: { id?: number; date: string }[];
+  transfer_children?: { id?: number; date: string }[];
+}
+
+export interface TransactionGroupDetails {
+  payee: string;
+  categoryId?: number;
+  notes?: string;
+}
+
+/**
+ * Why a transaction can't be added to a new group, or null when it can
+ */
+export const getGroupingBlocker = (transaction: GroupableTransaction): string | null => {
+  if (transaction.is_group) return 'is already a group';
+  if (transaction.group_id) return 'is already in a group';
+  if (transaction.has_children) return 'is split';
+  if (transaction.is_pending) return 'is still pending';
+  return null;
+};
+
+/**
+ * Errors preventing the transactions from being grouped together (empty when valid)
+ */
+export const validateGrouping = (transactions: GroupableTransaction[]): string[] => {
+  if (transactions.length < 2) {
+    return ['Select at least two transactions to group'];
+  }
+  const blocked = transactions.filter((transaction) => getGroupingBlocker(transaction) !== null);
+  return blocked.map((transaction) => `Transaction on ${transaction.date} ${getGroupingBlocker(transaction)}`);
+};
+
+/**
+ * Every date touched by a group and its members, so the list can refresh exactly that range
+ */
+export const getGroupDates = (transaction: GroupableTransaction): string[] => {
+  const children = transaction.group_children || transaction.transfer_children || [];
+  return [transaction.date, ...children.map((child) => child.date)];
+};
+
+/**
+ * Group transactions into one, dated on the earliest of them. Returns the group's ID.
+ */
+export const groupTransactions = async (
+  api: LunchMoneyAPI,
+  transactions: GroupableTransaction[],
+  details: TransactionGroupDetails
+): Promise<number> => {
+  const date = transactions.map((transaction) => transaction.date).sort()[0];
+  return api.createTransactionGroup({
+    date,
+    payee: details.payee,
+    category_id: details.categoryId,
+    notes: details.notes,
+    transactions: transactions.map((transaction) => Number(transaction.id)),
+  });
+};
+
+/**
+ * Dissolve a group back into its transactions. Receipts kept on the group move to its first
+ * transaction, as the group itself is deleted. Returns the IDs of the transactions.
+ */
+export const ungroupTransaction = async (api: LunchMoneyAPI, groupId: number): Promise<number[]> => {
+  const transactionIds = await api.deleteTransactionGroup(groupId);
+
+  if (transactionIds.length > 0) {
+    const attachments = await SecureStorage.getTransactionAttachments(String(groupId));
+    for (const attachment of attachments) {
+      await SecureStorage.linkAttachmentToTransaction(attachment.id, String(transactionIds[0]));
+    }
+  }
+  return transactionIds;
+};
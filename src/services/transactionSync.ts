@@ -0,0 +1,192 @@
+import { LunchMoneyTransaction } from '../types';
+import { SecureStorage, TransactionSyncCursor } from '../utils/storage';
+import { getActiveProfileId } from '../utils/profileScope';
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+
+export const TRANSACTION_PAGE_SIZE = 250;
+const INITIAL_SYNC_MONTHS = 2; // Current month plus the previous one
+const REFRESH_LOOKBACK_DAYS = 14; // Re-read this many days before the last sync to catch late edits
+const MAX_EMPTY_MONTHS = 6; // Stop paging back after this many months without transactions
+
+export interface DateRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+export interface TransactionSyncResult {
+  transactions: LunchMoneyTransaction[];
+  hasMoreOlder: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const getMonthKey = (dateString: string): string => dateString.substring(0, 7);
+
+// First and last day of the month containing the date (UTC)
+const getMonthRange = (date: Date): DateRange => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  return { startDate: toDateString(start), endDate: toDateString(end) };
+};
+
+/**
+ * Fetch every transaction in the range, page by page
+ */
+export const fetchTransactionPages = async (
+  api: LunchMoneyAPI,
+  range: DateRange,
+  pageSize: number = TRANSACTION_PAGE_SIZE
+): Promise<LunchMoneyTransaction[]> => {
+  const transactions: LunchMoneyTransaction[] = [];
+
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await api.getTransactions({
+      start_date: range.startDate,
+      end_date: range.endDate,
+      limit: pageSize,
+      offset,
+      debit_as_negative: false,
+    });
+    transactions.push(...page);
+
+    if (page.length < pageSize) {
+      break;
+    }
+  }
+
+  console.log(`📄 Fetched ${transactions.length} transactions for ${range.startDate} → ${range.endDate}`);
+  return transactions;
+};
+
+/**
+ * Replace everything inside the range with freshly fetched transactions.
+ * Transactions in the range that the server no longer returns are dropped.
+ */
+export const mergeTransactions = (
+  existing: LunchMoneyTransaction[],
+  fetched: LunchMoneyTransaction[],
+  range: DateRange
+): LunchMoneyTransaction[] => {
+  const fetchedIds = new Set(fetched.map((t) => t.id));
+  const kept = existing.filter((t) => {
+    if (fetchedIds.has(t.id)) return false;
+    const inRange = t.date >= range.startDate && t.date <= range.endDate;
+    return !inRange;
+  });
+  return [...kept, ...fetched];
+};
+
+/**
+ * Record that every month touched by the range has been synced
+ */
+const markRangeSynced = (
+  cursors: { [monthKey: string]: TransactionSyncCursor },
+  range: DateRange,
+  syncedAt: string
+): { [monthKey: string]: TransactionSyncCursor } => {
+  const updated = { ...cursors };
+  let cursorDate = new Date(`${range.startDate}T00:00:00Z`);
+  const end = new Date(`${range.endDate}T00:00:00Z`);
+
+  while (cursorDate <= end) {
+    const month = getMonthRange(cursorDate);
+    updated[getMonthKey(month.startDate)] = { ...month, lastSyncedAt: syncedAt };
+    cursorDate = new Date(`${month.endDate}T00:00:00Z`);
+    cursorDate = new Date(cursorDate.getTime() + DAY_MS);
+  }
+  return updated;
+};
+
+const getOldestSyncedDate = (cursors: { [monthKey: string]: TransactionSyncCursor }): string | null => {
+  const starts = Object.values(cursors).map((cursor) => cursor.startDate).sort();
+  return starts[0] || null;
+};
+
+/**
+ * Bring the most recent transactions up to date.
+ * With nothing loaded yet this performs the initial sync; otherwise only the window since
+ * the last sync (minus a lookback for late edits) is fetched and merged in.
+ * Cursors are read and written for `profileId` even if another profile becomes active meanwhile.
+ */
+export const syncRecentTransactions = async (
+  api: LunchMoneyAPI,
+  existing: LunchMoneyTransaction[],
+  profileId: string = getActiveProfileId()
+): Promise<TransactionSyncResult> => {
+  const now = new Date();
+  const syncedAt = now.toISOString();
+  let cursors = await SecureStorage.getTransactionSyncCursors(profileId);
+  const lastSyncedAt = Object.values(cursors)
+    .map((cursor) => cursor.lastSyncedAt)
+    .sort()
+    .pop();
+
+  let range: DateRange;
+  if (existing.length === 0 || !lastSyncedAt) {
+    // Initial sync - cursors without data are stale, start over
+    cursors = {};
+    const firstMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (INITIAL_SYNC_MONTHS - 1), 1));
+    range = { startDate: toDateString(firstMonth), endDate: toDateString(now) };
+  } else {
+    const since = new Date(new Date(lastSyncedAt).getTime() - REFRESH_LOOKBACK_DAYS * DAY_MS);
+    const oldest = getOldestSyncedDate(cursors);
+    const startDate = oldest && oldest > toDateString(since) ? oldest : toDateString(since);
+    range = { startDate, endDate: toDateString(now) };
+  }
+
+  const fetched = await fetchTransactionPages(api, range);
+  const transactions = mergeTransactions(existing, fetched, range);
+
+  await SecureStorage.setTransactionSyncCursors(markRangeSynced(cursors, range, syncedAt), profileId);
+  return { transactions, hasMoreOlder: true };
+};
+
+/**
+ * Load the month before the oldest synced one (for infinite scroll).
+ * Empty months are skipped, up to a limit, after which there is assumed to be no more history.
+ */
+export const syncOlderTransactions = async (
+  api: LunchMoneyAPI,
+  existing: LunchMoneyTransaction[],
+  profileId: string = getActiveProfileId()
+): Promise<TransactionSyncResult> => {
+  let cursors = await SecureStorage.getTransactionSyncCursors(profileId);
+  let oldest = getOldestSyncedDate(cursors);
+  if (!oldest) {
+    return syncRecentTransactions(api, existing, profileId);
+  }
+
+  let transactions = existing;
+  for (let emptyMonths = 0; emptyMonths < MAX_EMPTY_MONTHS; emptyMonths++) {
+    const previousDay = new Date(new Date(`${oldest}T00:00:00Z`).getTime() - DAY_MS);
+    const range = getMonthRange(previousDay);
+
+    const fetched = await fetchTransactionPages(api, range);
+    transactions = mergeTransactions(transactions, fetched, range);
+    cursors = markRangeSynced(cursors, range, new Date().toISOString());
+    oldest = range.startDate;
+
+    if (fetched.length > 0) {
+      await SecureStorage.setTransactionSyncCursors(cursors, profileId);
+      return { transactions, hasMoreOlder: true };
+    }
+  }
+
+  await SecureStorage.setTransactionSyncCursors(cursors, profileId);
+  return { transactions, hasMoreOlder: false };
+};
+
+/**
+ * Re-read a range that was changed outside a regular sync (e.g. transactions grouped in the app),
+ * without moving the sync cursors
+ */
+export const refreshTransactionRange = async (
+  api: LunchMoneyAPI,
+  existing: LunchMoneyTransaction[],
+  range: DateRange
+): Promise<LunchMoneyTransaction[]> => {
+  const fetched = await fetchTransactionPages(api, range);
+  return mergeTransactions(existing, fetched, range);
+};
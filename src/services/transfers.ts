@@ -0,0 +1,122 @@
+import { LunchMoneyTransaction } from '../types';
+import { LunchMoneyAPI } from './lunchMoneyAPI';
+
+// Names of the category that marks a transaction group as a transfer
+const TRANSFER_CATEGORY_NAMES = ['transfer', 'transfers'];
+
+// An entry of the merged asset + Plaid account list
+export interface TransferAccount {
+  id: number;
+  accountType: 'asset' | 'plaid';
+  currency?: string;
+  name?: string;
+  display_name?: string;
+}
+
+export interface NewTransfer {
+  date: string; // YYYY-MM-DD
+  fromAccount: TransferAccount;
+  toAccount: TransferAccount;
+  fromAmount: number; // Leaving the from-account, in its currency
+  toAmount: number; // Arriving in the to-account, in its currency
+  categoryId: number; // The transfer category, see findTransferCategory
+  notes?: string;
+  tags?: string[]; // Tag names, set on the group transaction
+  externalId: string; // Base external_id of the draft, suffixed per leg
+}
+
+// Steps already done, kept by the caller so a retry resumes instead of duplicating legs
+export interface TransferProgress {
+  fromId?: number;
+  toId?: number;
+  groupId?: number;
+  tagged?: boolean;
+}
+
+const getAccountName = (account: TransferAccount): string => {
+  return account.display_name || account.name || 'account';
+};
+
+/**
+ * The category used to mark transfers, which is how transfer groups are recognised
+ */
+export const findTransferCategory = <T extends { name: string; is_group?: boolean }>(categories: T[]): T | undefined => {
+  return categories.find((category) => !category.is_group && TRANSFER_CATEGORY_NAMES.includes(category.name.trim().toLowerCase()));
+};
+
+/**
+ * Whether the amounts of both sides must be entered separately
+ */
+export const isCrossCurrencyTransfer = (fromAccount?: TransferAccount | null, toAccount?: TransferAccount | null): boolean => {
+  return Boolean(
+    fromAccount?.currency &&
+      toAccount?.currency &&
+      fromAccount.currency.toLowerCase() !== toAccount.currency.toLowerCase()
+  );
+};
+
+const createLeg = async (
+  api: LunchMoneyAPI,
+  transfer: NewTransfer,
+  side: 'from' | 'to',
+  reconcile: boolean
+): Promise<number> => {
+  const account = side === 'from' ? transfer.fromAccount : transfer.toAccount;
+  const other = side === 'from' ? transfer.toAccount : transfer.fromAccount;
+  const amount = side === 'from' ? transfer.fromAmount : transfer.toAmount;
+
+  const leg: Omit<LunchMoneyTransaction, 'id'> = {
+    date: transfer.date,
+    // Debits are negative below: money leaves the from-account and arrives in the to-account
+    amount: (side === 'from' ? -amount : amount).toFixed(2),
+    currency: account.currency,
+    payee: side === 'from' ? `Transfer to ${getAccountName(other)}` : `Transfer from ${getAccountName(other)}`,
+    category_id: transfer.categoryId,
+    notes: transfer.notes,
+    external_id: `${transfer.externalId}-${side}`,
+    ...(account.accountType === 'plaid' ? { plaid_account_id: account.id } : { asset_id: account.id }),
+  };
+
+  const created = await api.createTransaction(leg, {
+    reconcile,
+    applyRules: false,
+    checkForRecurring: false,
+    debitAsNegative: true,
+    skipBalanceUpdate: false, // Both balances move with the transfer
+  });
+  return created.id!;
+};
+
+/**
+ * Record a transfer as two legs, one per account, grouped into a single transfer transaction.
+ * `progress` is updated after each step; pass the same object again to retry after a failure.
+ * Returns the ID of the group transaction.
+ */
+export const createTransfer = async (
+  api: LunchMoneyAPI,
+  transfer: NewTransfer,
+  progress: TransferProgress = {},
+  reconcile: boolean = false
+): Promise<number> => {
+  if (!progress.fromId) {
+    progress.fromId = await createLeg(api, transfer, 'from', reconcile);
+  }
+  if (!progress.toId) {
+    progress.toId = await createLeg(api, transfer, 'to', reconcile);
+  }
+  if (!progress.groupId) {
+    progress.groupId = await api.createTransactionGroup({
+      date: transfer.date,
+      payee: `Transfer: ${getAccountName(transfer.fromAccount)} → ${getAccountName(transfer.toAccount)}`,
+      category_id: transfer.categoryId,
+      notes: transfer.notes,
+      transactions: [progress.fromId, progress.toId],
+    });
+  }
+  // The group endpoint takes tag IDs; tags set afterwards can be given by name
+  if (!progress.tagged && transfer.tags?.length) {
+    await api.setTransactionTags(progress.groupId, transfer.tags);
+    progress.tagged = true;
+  }
+  return progress.groupId;
+};
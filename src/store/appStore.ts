@@ -1,9 +1,11 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { AppSettings, SyncStatus, NewTransaction, LunchMoneyCategory, LunchMoneyTag } from '../types';
+import { AppSettings, SyncStatus, NewTransaction, LunchMoneyCategory, LunchMoneyTag, OutboxItem, OutboxRequest } from '../types';
 import { SecureStorage } from '../utils/storage';
 import { isAPIConfigured, testAPIConnection } from '../services/lunchMoneyAPI';
+import { generateClientId, buildExternalId } from '../utils/ids';
+import { getBackoffDelay } from '../utils/backoff';
 
 interface AppState {
   // Authentication
@@ -26,11 +28,15 @@ interface AppState {
   setCategories: (categories: LunchMoneyCategory[]) => void;
   setTags: (tags: LunchMoneyTag[]) => void;
 
-  // Offline transactions
-  offlineTransactions: NewTransaction[];
-  addOfflineTransaction: (transaction: NewTransaction) => void;
-  removeOfflineTransaction: (transactionId: string) => void;
-  clearOfflineTransactions: () => void;
+  // Offline outbox
+  outbox: OutboxItem[];
+  enqueueOutboxItem: (request: OutboxRequest) => string;
+  markOutboxItemSyncing: (clientId: string) => void;
+  markOutboxItemFailed: (clientId: string, error: string) => void;
+  markOutboxItemBlocked: (clientId: string, error: string) => void;
+  retryOutboxItem: (clientId: string) => void;
+  removeOutboxItem: (clientId: string) => void;
+  clearOutbox: () => void;
 
   // UI state
   isLoading: boolean;
@@ -39,6 +45,39 @@ interface AppState {
   setError: (error: string | null) => void;
 }
 
+export const APP_STORE_NAME = 'flash-track-money-store';
+
+type PersistedAppState = Pick<AppState, 'settings' | 'syncStatus' | 'categories' | 'tags' | 'outbox'>;
+
+// v0 kept queued transactions in a plain array instead of the outbox
+interface LegacyPersistedAppState extends Partial<PersistedAppState> {
+  offlineTransactions?: NewTransaction[];
+}
+
+// Starting point for a profile that has nothing persisted yet
+const initialPersistedState: PersistedAppState = {
+  settings: {
+    enableOfflineMode: true,
+  },
+  syncStatus: {
+    pendingTransactions: 0,
+    isOnline: true,
+    isSyncing: false,
+  },
+  categories: [],
+  tags: [],
+  outbox: [],
+};
+
+// Keep the pending counter in sync whenever the outbox changes
+const withOutbox = (state: AppState, outbox: OutboxItem[]): Partial<AppState> => ({
+  outbox,
+  syncStatus: {
+    ...state.syncStatus,
+    pendingTransactions: outbox.length,
+  },
+});
+
 export const useAppStore = create<AppState>()(
   persist(
     (set, get) => ({
@@ -72,20 +111,14 @@ export const useAppStore = create<AppState>()(
       },
 
       // Settings
-      settings: {
-        enableOfflineMode: true,
-      },
+      settings: initialPersistedState.settings,
       updateSettings: (newSettings) =>
         set((state) => ({
           settings: { ...state.settings, ...newSettings },
         })),
 
       // Sync status
-      syncStatus: {
-        pendingTransactions: 0,
-        isOnline: true,
-        isSyncing: false,
-      },
+      syncStatus: initialPersistedState.syncStatus,
       updateSyncStatus: (status) =>
         set((state) => ({
           syncStatus: { ...state.syncStatus, ...status },
@@ -97,34 +130,93 @@ export const useAppStore = create<AppState>()(
       setCategories: (categories) => set({ categories }),
       setTags: (tags) => set({ tags }),
 
-      // Offline transactions
-      offlineTransactions: [],
-      addOfflineTransaction: (transaction) =>
-        set((state) => ({
-          offlineTransactions: [...state.offlineTransactions, transaction],
-          syncStatus: {
-            ...state.syncStatus,
-            pendingTransactions: state.syncStatus.pendingTransactions + 1,
-          },
-        })),
-      removeOfflineTransaction: (transactionId) =>
-        set((state) => ({
-          offlineTransactions: state.offlineTransactions.filter(
-            (t) => t.receipt?.id !== transactionId
-          ),
-          syncStatus: {
-            ...state.syncStatus,
-            pendingTransactions: Math.max(0, state.syncStatus.pendingTransactions - 1),
-          },
-        })),
-      clearOfflineTransactions: () =>
-        set((state) => ({
-          offlineTransactions: [],
-          syncStatus: {
-            ...state.syncStatus,
-            pendingTransactions: 0,
+      // Offline outbox
+      outbox: [],
+      enqueueOutboxItem: (request) => {
+        const now = new Date().toISOString();
+        const clientId = generateClientId();
+        const item: OutboxItem = {
+          ...request,
+          // Stamp creates with an external_id so a retry can never double-post
+          transaction: request.transaction && {
+            ...request.transaction,
+            external_id: request.transaction.external_id || buildExternalId(clientId),
           },
-        })),
+          clientId,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now,
+          updatedAt: now,
+        };
+        set((state) => withOutbox(state, [...state.outbox, item]));
+        return item.clientId;
+      },
+      markOutboxItemSyncing: (clientId) =>
+        set((state) =>
+          withOutbox(
+            state,
+            state.outbox.map((item) =>
+              item.clientId === clientId
+                ? { ...item, status: 'syncing', updatedAt: new Date().toISOString() }
+                : item
+            )
+          )
+        ),
+      markOutboxItemFailed: (clientId, error) =>
+        set((state) =>
+          withOutbox(
+            state,
+            state.outbox.map((item) => {
+              if (item.clientId !== clientId) return item;
+              const attempts = item.attempts + 1;
+              return {
+                ...item,
+                status: 'failed',
+                attempts,
+                lastError: error,
+                nextAttemptAt: new Date(Date.now() + getBackoffDelay(attempts)).toISOString(),
+                updatedAt: new Date().toISOString(),
+              };
+            })
+          )
+        ),
+      markOutboxItemBlocked: (clientId, error) =>
+        set((state) =>
+          withOutbox(
+            state,
+            state.outbox.map((item) =>
+              item.clientId === clientId
+                ? {
+                    ...item,
+                    status: 'blocked',
+                    attempts: item.attempts + 1,
+                    lastError: error,
+                    updatedAt: new Date().toISOString(),
+                  }
+                : item
+            )
+          )
+        ),
+      retryOutboxItem: (clientId) =>
+        set((state) =>
+          withOutbox(
+            state,
+            state.outbox.map((item) =>
+              item.clientId === clientId
+                ? { ...item, status: 'pending', nextAttemptAt: new Date().toISOString() }
+                : item
+            )
+          )
+        ),
+      removeOutboxItem: (clientId) =>
+        set((state) =>
+          withOutbox(
+            state,
+            state.outbox.filter((item) => item.clientId !== clientId)
+          )
+        ),
+      clearOutbox: () => set((state) => withOutbox(state, [])),
 
       // UI state
       isLoading: false,
@@ -133,16 +225,51 @@ export const useAppStore = create<AppState>()(
       setError: (error) => set({ error }),
     }),
     {
-      name: 'flash-track-money-store',
+      name: APP_STORE_NAME,
       storage: createJSONStorage(() => AsyncStorage),
+      // Hydrated by the profile service once the active profile is known
+      skipHydration: true,
       partialize: (state) => ({
         settings: state.settings,
         syncStatus: state.syncStatus,
         categories: state.categories,
         tags: state.tags,
-        offlineTransactions: state.offlineTransactions,
+        // Items interrupted mid-sync are persisted as pending so they resume on next launch
+        outbox: state.outbox.map((item) =>
+          item.status === 'syncing' ? { ...item, status: 'pending' as const } : item
+        ),
         // Note: Don't persist isAuthenticated, check on app start
       }),
+      // Fields missing from storage (e.g. a new profile) fall back to their initial values
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        ...initialPersistedState,
+        ...(persistedState as Partial<PersistedAppState>),
+      }),
+      version: 1,
+      migrate: (persisted, version) => {
+        const persistedState = persisted as LegacyPersistedAppState | undefined;
+        // v0 stored a plain array of offline transactions; convert them into outbox items
+        if (version === 0 && persistedState) {
+          const now = new Date().toISOString();
+          const legacyTransactions = persistedState.offlineTransactions || [];
+          persistedState.outbox = legacyTransactions.map((transaction) => {
+            const clientId = generateClientId();
+            return {
+              clientId,
+              operation: 'create',
+              transaction: { ...transaction, external_id: buildExternalId(clientId) },
+              status: 'pending',
+              attempts: 0,
+              nextAttemptAt: now,
+              createdAt: now,
+              updatedAt: now,
+            };
+          });
+          delete persistedState.offlineTransactions;
+        }
+        return persistedState as AppState;
+      },
     }
   )
 );
@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { LunchMoneyTransaction, LunchMoneyCategory, AccountOption } from '../types';
+import { createChunkedStorage } from '../utils/chunkedStorage';
+
+interface CacheState {
+  // Raw transactions as returned by Lunch Money (before transfer grouping)
+  transactions: LunchMoneyTransaction[];
+  accounts: AccountOption[];
+  categories: LunchMoneyCategory[];
+  tags: string[];
+  // Account ID (or `plaid_<id>`) to display name, used when processing transfers
+  assetMap: { [key: string]: string };
+  lastUpdatedAt: string | null;
+
+  setTransactions: (transactions: LunchMoneyTransaction[], assetMap?: { [key: string]: string }) => void;
+  setAccounts: (accounts: AccountOption[]) => void;
+  setCategories: (categories: LunchMoneyCategory[]) => void;
+  setTags: (tags: string[]) => void;
+  clearCache: () => void;
+}
+
+type PersistedCacheState = Pick<
+  CacheState,
+  'transactions' | 'accounts' | 'categories' | 'tags' | 'assetMap' | 'lastUpdatedAt'
+>;
+
+export const CACHE_STORE_NAME = 'flash-track-money-cache';
+
+const emptyCache: PersistedCacheState = {
+  transactions: [],
+  accounts: [],
+  categories: [],
+  tags: [],
+  assetMap: {},
+  lastUpdatedAt: null,
+};
+
+export const useCacheStore = create<CacheState>()(
+  persist(
+    (set) => ({
+      ...emptyCache,
+
+      setTransactions: (transactions, assetMap) =>
+        set((state) => ({
+          transactions,
+          assetMap: assetMap || state.assetMap,
+          lastUpdatedAt: new Date().toISOString(),
+        })),
+      setAccounts: (accounts) => set({ accounts }),
+      setCategories: (categories) => set({ categories }),
+      setTags: (tags) => set({ tags }),
+      clearCache: () => set({ ...emptyCache }),
+    }),
+    {
+      name: CACHE_STORE_NAME,
+      // Transactions are stored one month per key so a sync only rewrites the months it touched
+      storage: createChunkedStorage<PersistedCacheState, 'transactions'>({
+        field: 'transactions',
+        getChunkKey: (transaction) => (transaction.date || 'undated').substring(0, 7),
+      }),
+      // Hydrated by the profile service once the active profile is known
+      skipHydration: true,
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        ...emptyCache,
+        ...(persistedState as Partial<PersistedCacheState>),
+      }),
+      partialize: (state) => ({
+        transactions: state.transactions,
+        accounts: state.accounts,
+        categories: state.categories,
+        tags: state.tags,
+        assetMap: state.assetMap,
+        lastUpdatedAt: state.lastUpdatedAt,
+      }),
+      version: 1,
+    }
+  )
+);
+
+/**
+ * Resolve once the cache has been read from disk
+ */
+export const waitForCacheHydration = (): Promise<void> => {
+  if (useCacheStore.persist.hasHydrated()) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const unsubscribe = useCacheStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+};
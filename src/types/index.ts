@@ -3,16 +3,21 @@ export interface LunchMoneyTransaction {
   id?: number;
   date: string;
   amount: string;
+  currency?: string;
   payee: string;
   category_id?: number;
   asset_id?: number;
+  plaid_account_id?: number;
   recurring_id?: number;
   notes?: string;
   is_group?: boolean;
   group_id?: number;
+  parent_id?: number; // Set on the parts of a split transaction
+  has_children?: boolean; // Set on a split transaction's parent
   tags?: LunchMoneyTag[];
   external_id?: string;
   original_name?: string;
+  status?: 'cleared' | 'uncleared' | 'pending'; // cleared = reviewed
   type?: 'credit' | 'debit';
   subtype?: string;
   fees?: string;
@@ -20,6 +25,23 @@ export interface LunchMoneyTransaction {
   quantity?: string;
 }
 
+export interface LunchMoneySplitItem {
+  amount: string | number;
+  date?: string;
+  payee?: string;
+  category_id?: number;
+  notes?: string;
+}
+
+export interface LunchMoneyTransactionGroup {
+  date: string;
+  payee: string;
+  category_id?: number;
+  notes?: string;
+  tags?: (number | string)[];
+  transactions: number[];
+}
+
 export interface LunchMoneyCategory {
   id: number;
   name: string;
@@ -50,16 +72,49 @@ export interface LunchMoneyAsset {
   currency: string;
   status: string;
   institution_name?: string;
+  closed_on?: string | null;
+}
+
+export interface LunchMoneyPlaidAccount {
+  id: number;
+  date_linked: string;
+  name: string;
+  display_name?: string;
+  type: string;
+  subtype?: string;
+  mask?: string;
+  institution_name?: string;
+  status: string;
+  balance: string;
+  currency: string;
+  balance_last_update?: string;
+  limit?: number | null;
+}
+
+export interface LunchMoneyUser {
+  user_id: number;
+  user_name: string;
+  user_email: string;
+  account_id: number;
+  budget_name: string;
+  api_key_label?: string;
 }
 
 // App-specific types
 export interface Receipt {
   id: string;
   uri: string;
+  pages?: string[]; // Every page of a multi-page capture in order, starting with `uri`
   transactionId?: string;
   createdAt: string;
 }
 
+// One page of a multi-page attachment (e.g. a long receipt photographed in several shots)
+export interface AttachmentPage {
+  uri: string;
+  thumbnailUri?: string;
+}
+
 export interface Attachment {
   id: string;
   uri: string;
@@ -67,6 +122,10 @@ export interface Attachment {
   dateAdded: string;
   size?: number;
   transactionId?: string;
+  mimeType?: string;
+  thumbnailUri?: string; // Small preview for lists; missing for attachments added before thumbnails existed
+  pages?: AttachmentPage[]; // All pages in order when there is more than one; `uri` is the first page
+  receiptData?: ReceiptSuggestions; // Fields read from the receipt, if it has been read
 }
 
 export interface NewTransaction {
@@ -77,12 +136,44 @@ export interface NewTransaction {
   notes?: string;
   receipt?: Receipt;
   offline?: boolean;
+  external_id?: string; // Deterministic ID used to reconcile retries with Lunch Money
+  currency?: string; // Lowercase ISO 4217 code; defaults to the budget's primary currency
 }
 
+// Offline outbox types
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+// 'blocked' items failed in a way retrying can't fix (invalid data, bad token) and wait for the user
+export type OutboxItemStatus = 'pending' | 'syncing' | 'failed' | 'blocked';
+
+export interface OutboxItem {
+  clientId: string; // Stable client-side ID, assigned when the item is queued
+  operation: OutboxOperation;
+  transaction?: NewTransaction; // Payload for 'create'
+  transactionId?: number; // Target for 'update' and 'delete'
+  changes?: Partial<LunchMoneyTransaction>; // Payload for 'update'
+  status: OutboxItemStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OutboxRequest = Pick<OutboxItem, 'operation' | 'transaction' | 'transactionId' | 'changes'>;
+
+// Progress of a work expense paid personally and claimed back
+export type ReimbursementStatus = 'pending' | 'submitted' | 'reimbursed';
+
+// Size/compression preset applied when an attachment is copied into app storage
+export type AttachmentQuality = 'high' | 'standard' | 'compact';
+
 export interface AppSettings {
   lunchMoneyApiToken?: string;
   defaultCategoryId?: number;
   enableOfflineMode: boolean;
+  attachmentQuality?: AttachmentQuality;
+  orphanCleanupDays?: number; // Delete orphaned attachments this many days old; missing or 0 = never
 }
 
 export interface SyncStatus {
@@ -91,3 +182,48 @@ export interface SyncStatus {
   isOnline: boolean;
   isSyncing: boolean;
 }
+
+// Account shown in pickers and filters: a manual asset or a normalized Plaid account
+export type AccountOption =
+  | (LunchMoneyAsset & { accountType: 'asset' })
+  | { id: number; name: string; currency: string; accountType: 'plaid' };
+
+// Named Lunch Money budget with its own token, cache, preferences and offline queue
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Value read from a receipt image, with how sure the parser is about it (0-1)
+export interface ReceiptField<T> {
+  value: T;
+  confidence: number;
+}
+
+export type ReceiptFieldConfidence = 'high' | 'medium' | 'low';
+
+export interface ReceiptSuggestions {
+  amount?: ReceiptField<string>; // Grand total, e.g. "12.34"
+  payee?: ReceiptField<string>; // Merchant name
+  date?: ReceiptField<string>; // YYYY-MM-DD
+  time?: ReceiptField<string>; // HH:MM (24h)
+  currency?: ReceiptField<string>; // Lowercase ISO 4217 code
+  text?: string; // Everything recognised on the receipt, kept so receipts can be searched
+}
+
+// Document scanning types
+// Point on an image as a fraction of its width and height (0-1)
+export interface DocumentPoint {
+  x: number;
+  y: number;
+}
+
+export interface DocumentCorners {
+  topLeft: DocumentPoint;
+  topRight: DocumentPoint;
+  bottomRight: DocumentPoint;
+  bottomLeft: DocumentPoint;
+}
+
+export type DocumentFilter = 'grayscale' | 'blackAndWhite';
@@ -0,0 +1,244 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import PdfThumbnail from 'react-native-pdf-thumbnail';
+import { getActiveProfileId } from './profileScope';
+import { AttachmentPage, AttachmentQuality } from '../types';
+
+interface AttachmentQualityPreset {
+  label: string;
+  maxDimension: number; // Longest side in pixels
+  compress: number; // JPEG quality (0-1)
+}
+
+export const ATTACHMENT_QUALITY_PRESETS: Record<AttachmentQuality, AttachmentQualityPreset> = {
+  high: { label: 'High', maxDimension: 2400, compress: 0.9 },
+  standard: { label: 'Standard', maxDimension: 1600, compress: 0.7 },
+  compact: { label: 'Compact', maxDimension: 1024, compress: 0.5 },
+};
+
+export const DEFAULT_ATTACHMENT_QUALITY: AttachmentQuality = 'standard';
+
+const ATTACHMENTS_FOLDER = 'attachments';
+const THUMBNAIL_SIZE = 240; // Shortest side, enough for the list and gallery strip
+const THUMBNAIL_COMPRESS = 0.6;
+const PDF_THUMBNAIL_QUALITY = 60; // 0-100
+
+export type AttachmentKind = 'image' | 'pdf' | 'document';
+
+export interface StoredAttachmentFile {
+  uri: string;
+  thumbnailUri?: string; // Missing for documents that can't be previewed
+  mimeType: string;
+  size: number;
+  pages?: AttachmentPage[]; // Set for multi-page scans
+}
+
+interface StoreAttachmentOptions {
+  quality?: AttachmentQuality;
+  width?: number; // Source dimensions, read from the image when not given
+  height?: number;
+}
+
+/**
+ * How an attachment should be rendered, based on its MIME type
+ */
+export const getAttachmentKind = (mimeType?: string): AttachmentKind => {
+  if (!mimeType || mimeType.startsWith('image/')) {
+    return 'image'; // Attachments saved before documents were supported are all images
+  }
+  return mimeType === 'application/pdf' ? 'pdf' : 'document';
+};
+
+/**
+ * Pages of an attachment in order. Single-page attachments are their own only page.
+ */
+export const getAttachmentPages = (attachment: {
+  uri: string;
+  thumbnailUri?: string;
+  pages?: AttachmentPage[];
+}): AttachmentPage[] => {
+  return attachment.pages && attachment.pages.length > 0
+    ? attachment.pages
+    : [{ uri: attachment.uri, thumbnailUri: attachment.thumbnailUri }];
+};
+
+/**
+ * Folder in the app's documents directory that holds a profile's attachment files.
+ * Unlike the picker's cache, the OS never purges it.
+ */
+export const getAttachmentsDirectory = (profileId: string = getActiveProfileId()): Directory => {
+  const directory = new Directory(Paths.document, ATTACHMENTS_FOLDER, profileId);
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+  return directory;
+};
+
+/**
+ * Whether a file lives in the managed attachments folder (as opposed to e.g. the photo library)
+ */
+export const isManagedAttachmentUri = (uri?: string): boolean => {
+  return !!uri && uri.startsWith(new Directory(Paths.document, ATTACHMENTS_FOLDER).uri);
+};
+
+/**
+ * Copy a picked image into managed storage, resized and compressed for the chosen quality,
+ * and generate its thumbnail
+ */
+export const storeAttachmentFile = async (
+  sourceUri: string,
+  attachmentId: string,
+  { quality = DEFAULT_ATTACHMENT_QUALITY, width = 0, height = 0 }: StoreAttachmentOptions = {}
+): Promise<StoredAttachmentFile> => {
+  const preset = ATTACHMENT_QUALITY_PRESETS[quality];
+  if (!width || !height) {
+    // Needed to apply the preset's size limit (e.g. scanned pages); small images aren't upscaled
+    const source = await manipulateAsync(sourceUri, []);
+    width = source.width;
+    height = source.height;
+  }
+  const resize =
+    Math.max(width, height) > preset.maxDimension
+      ? width >= height
+        ? { width: preset.maxDimension }
+        : { height: preset.maxDimension }
+      : null;
+
+  const image = await manipulateAsync(sourceUri, resize ? [{ resize }] : [], {
+    compress: preset.compress,
+    format: SaveFormat.JPEG,
+  });
+  const thumbnail = await manipulateAsync(
+    image.uri,
+    [{ resize: image.width <= image.height ? { width: THUMBNAIL_SIZE } : { height: THUMBNAIL_SIZE } }],
+    { compress: THUMBNAIL_COMPRESS, format: SaveFormat.JPEG }
+  );
+
+  const directory = getAttachmentsDirectory();
+  const file = new File(directory, `${attachmentId}.jpg`);
+  const thumbnailFile = new File(directory, `${attachmentId}_thumb.jpg`);
+  new File(image.uri).move(file);
+  new File(thumbnail.uri).move(thumbnailFile);
+
+  return {
+    uri: file.uri,
+    thumbnailUri: thumbnailFile.uri,
+    mimeType: 'image/jpeg',
+    size: file.size,
+  };
+};
+
+/**
+ * Store the pages of a multi-page scan as one attachment; the first page doubles as its preview
+ */
+export const storeAttachmentPages = async (
+  sourceUris: string[],
+  attachmentId: string,
+  options: StoreAttachmentOptions = {}
+): Promise<StoredAttachmentFile> => {
+  const storedPages: StoredAttachmentFile[] = [];
+  for (const [index, sourceUri] of sourceUris.entries()) {
+    storedPages.push(await storeAttachmentFile(sourceUri, `${attachmentId}_${index + 1}`, options));
+  }
+
+  return {
+    uri: storedPages[0].uri,
+    thumbnailUri: storedPages[0].thumbnailUri,
+    mimeType: 'image/jpeg',
+    size: storedPages.reduce((total, page) => total + page.size, 0),
+    pages: storedPages.length > 1
+      ? storedPages.map((page) => ({ uri: page.uri, thumbnailUri: page.thumbnailUri }))
+      : undefined,
+  };
+};
+
+/**
+ * Copy a picked document (PDF, etc.) into managed storage unchanged. PDFs get a thumbnail
+ * of their first page.
+ */
+export const storeDocumentFile = async (
+  sourceUri: string,
+  attachmentId: string,
+  { fileName, mimeType }: { fileName: string; mimeType: string }
+): Promise<StoredAttachmentFile> => {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : 'bin';
+  const directory = getAttachmentsDirectory();
+  const file = new File(directory, `${attachmentId}.${extension}`);
+  new File(sourceUri).copy(file);
+
+  let thumbnailUri: string | undefined;
+  if (getAttachmentKind(mimeType) === 'pdf') {
+    try {
+      const thumbnail = await PdfThumbnail.generate(file.uri, 0, PDF_THUMBNAIL_QUALITY);
+      const thumbnailFile = new File(directory, `${attachmentId}_thumb.jpg`);
+      new File(thumbnail.uri).move(thumbnailFile);
+      thumbnailUri = thumbnailFile.uri;
+    } catch (error) {
+      // Encrypted or damaged PDFs can still be attached, just without a preview
+      console.error('Error generating PDF thumbnail:', error);
+    }
+  }
+
+  return { uri: file.uri, thumbnailUri, mimeType, size: file.size };
+};
+
+/**
+ * Every file an attachment uses: its pages and their thumbnails
+ */
+export const getAttachmentFileUris = (attachment: {
+  uri: string;
+  thumbnailUri?: string;
+  pages?: AttachmentPage[];
+}): string[] => {
+  const uris = getAttachmentPages(attachment).flatMap((page) => [page.uri, page.thumbnailUri]);
+  return Array.from(new Set([attachment.uri, attachment.thumbnailUri, ...uris])).filter(
+    (uri): uri is string => !!uri
+  );
+};
+
+/**
+ * Files currently in a profile's attachments folder
+ */
+export const listAttachmentFiles = (profileId: string = getActiveProfileId()): File[] => {
+  return getAttachmentsDirectory(profileId)
+    .list()
+    .filter((entry): entry is File => entry instanceof File);
+};
+
+/**
+ * Attachment ID a managed file belongs to. Pages and thumbnails add `_<suffix>` to the ID.
+ */
+export const getAttachmentIdFromFileName = (fileName: string): string => {
+  return fileName.split(/[_.]/)[0];
+};
+
+/**
+ * Delete an attachment's managed files. Files outside managed storage are left alone.
+ */
+export const deleteAttachmentFiles = (attachment: {
+  uri: string;
+  thumbnailUri?: string;
+  pages?: AttachmentPage[];
+}): void => {
+  getAttachmentFileUris(attachment).forEach((uri) => {
+    if (!isManagedAttachmentUri(uri)) return;
+    try {
+      const file = new File(uri);
+      if (file.exists) {
+        file.delete();
+      }
+    } catch (error) {
+      console.error('Error deleting attachment file:', error);
+    }
+  });
+};
+
+/**
+ * Delete every attachment file stored for a profile
+ */
+export const deleteProfileAttachmentFiles = (profileId: string): void => {
+  const directory = new Directory(Paths.document, ATTACHMENTS_FOLDER, profileId);
+  if (directory.exists) {
+    directory.delete();
+  }
+};
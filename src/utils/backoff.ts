@@ -0,0 +1,23 @@
+const DEFAULT_BASE_DELAY_MS = 30 * 1000; // 30 seconds
+const DEFAULT_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Exponential backoff delay for the given attempt number (1-based),
+ * doubling from the base delay and capped at the max delay
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelayMs: number = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs: number = DEFAULT_MAX_DELAY_MS
+): number => {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(maxDelayMs, baseDelayMs * Math.pow(2, exponent));
+};
+
+/**
+ * Randomise a delay between half and the full value so that clients
+ * retrying at the same time don't hit the server in lockstep
+ */
+export const withJitter = (delayMs: number): number => {
+  return Math.round(delayMs / 2 + Math.random() * (delayMs / 2));
+};
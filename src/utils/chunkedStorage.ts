@@ -0,0 +1,119 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+
+interface ChunkedStorageOptions<S, K extends keyof S> {
+  field: K; // Array field that is split into chunks
+  getChunkKey: (item: S[K] extends (infer T)[] ? T : never) => string;
+}
+
+interface ChunkedStorageMeta {
+  chunkKeys: string[];
+  version?: number;
+}
+
+/**
+ * Persist storage for zustand that writes one large array field as separate AsyncStorage
+ * entries (e.g. one per month), so only the chunks that changed are rewritten.
+ * All other state is stored as a single small JSON value.
+ */
+export const createChunkedStorage = <S, K extends keyof S>({
+  field,
+  getChunkKey,
+}: ChunkedStorageOptions<S, K>): PersistStorage<S> => {
+  // Last serialized value of each chunk per storage name, so unchanged chunks are skipped on write
+  const writtenChunksByName = new Map<string, Map<string, string>>();
+  const getWrittenChunks = (name: string): Map<string, string> => {
+    if (!writtenChunksByName.has(name)) {
+      writtenChunksByName.set(name, new Map());
+    }
+    return writtenChunksByName.get(name)!;
+  };
+
+  const metaKey = (name: string) => `${name}:meta`;
+  const stateKey = (name: string) => `${name}:state`;
+  const chunkStorageKey = (name: string, chunkKey: string) => `${name}:chunk:${chunkKey}`;
+
+  return {
+    getItem: async (name): Promise<StorageValue<S> | null> => {
+      try {
+        const [[, metaJson], [, stateJson]] = await AsyncStorage.multiGet([metaKey(name), stateKey(name)]);
+        if (!metaJson || !stateJson) {
+          return null;
+        }
+
+        const meta: ChunkedStorageMeta = JSON.parse(metaJson);
+        const chunkEntries = await AsyncStorage.multiGet(
+          meta.chunkKeys.map((chunkKey) => chunkStorageKey(name, chunkKey))
+        );
+
+        const items: unknown[] = [];
+        const writtenChunks = getWrittenChunks(name);
+        writtenChunks.clear();
+        chunkEntries.forEach(([key, value], index) => {
+          if (!value) return;
+          writtenChunks.set(meta.chunkKeys[index], value);
+          items.push(...JSON.parse(value));
+        });
+
+        return {
+          state: { ...JSON.parse(stateJson), [field]: items } as S,
+          version: meta.version,
+        };
+      } catch (error) {
+        console.error(`Error reading chunked storage ${name}:`, error);
+        return null;
+      }
+    },
+
+    setItem: async (name, value) => {
+      try {
+        const { [field]: items, ...rest } = value.state as S;
+        const writtenChunks = getWrittenChunks(name);
+        const chunks = new Map<string, unknown[]>();
+        ((items as unknown[]) || []).forEach((item) => {
+          const chunkKey = getChunkKey(item as never);
+          chunks.set(chunkKey, [...(chunks.get(chunkKey) || []), item]);
+        });
+
+        const changed: [string, string][] = [];
+        chunks.forEach((chunkItems, chunkKey) => {
+          const json = JSON.stringify(chunkItems);
+          if (writtenChunks.get(chunkKey) !== json) {
+            changed.push([chunkStorageKey(name, chunkKey), json]);
+            writtenChunks.set(chunkKey, json);
+          }
+        });
+
+        const removed = [...writtenChunks.keys()].filter((chunkKey) => !chunks.has(chunkKey));
+        removed.forEach((chunkKey) => writtenChunks.delete(chunkKey));
+
+        const meta: ChunkedStorageMeta = { chunkKeys: [...chunks.keys()], version: value.version };
+        await AsyncStorage.multiSet([
+          ...changed,
+          [stateKey(name), JSON.stringify(rest)],
+          [metaKey(name), JSON.stringify(meta)],
+        ]);
+        if (removed.length > 0) {
+          await AsyncStorage.multiRemove(removed.map((chunkKey) => chunkStorageKey(name, chunkKey)));
+        }
+      } catch (error) {
+        console.error(`Error writing chunked storage ${name}:`, error);
+      }
+    },
+
+    removeItem: async (name) => {
+      try {
+        const metaJson = await AsyncStorage.getItem(metaKey(name));
+        const chunkKeys: string[] = metaJson ? JSON.parse(metaJson).chunkKeys : [];
+        await AsyncStorage.multiRemove([
+          metaKey(name),
+          stateKey(name),
+          ...chunkKeys.map((chunkKey) => chunkStorageKey(name, chunkKey)),
+        ]);
+        writtenChunksByName.delete(name);
+      } catch (error) {
+        console.error(`Error removing chunked storage ${name}:`, error);
+      }
+    },
+  };
+};
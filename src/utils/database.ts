@@ -0,0 +1,202 @@
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_PROFILE_ID } from './profileScope';
+
+const DATABASE_NAME = 'flash-track-money.db';
+
+// AsyncStorage blobs that held this data before the database existed
+const LEGACY_STORAGE_KEYS = {
+  TRANSACTION_ATTACHMENTS: '@transaction_attachments',
+  TRANSACTION_METADATA: '@transaction_metadata',
+} as const;
+
+// Records of the legacy blobs; older versions didn't always write every field
+interface LegacyAttachment {
+  id: string;
+  uri: string;
+  transactionId?: string;
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  dateAdded?: string;
+}
+
+interface LegacyTransactionMetadata {
+  transactionId?: string;
+  fullDatetime: string;
+  createdInApp?: boolean;
+}
+
+interface Migration {
+  version: number;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * Schema migrations, applied in order. The current version is kept in `PRAGMA user_version`.
+ * Never edit a migration that has shipped - add a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS transaction_attachments (
+          id TEXT PRIMARY KEY NOT NULL,
+          transaction_id TEXT NOT NULL,
+          uri TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL DEFAULT 0,
+          date_added TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_transaction_attachments_transaction_id
+          ON transaction_attachments (transaction_id);
+        CREATE TABLE IF NOT EXISTS transaction_metadata (
+          transaction_id TEXT PRIMARY KEY NOT NULL,
+          full_datetime TEXT NOT NULL,
+          created_in_app INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    up: async (db) => {
+      // One-time import of the AsyncStorage JSON blobs
+      const [[, attachmentsData], [, metadataData]] = await AsyncStorage.multiGet([
+        LEGACY_STORAGE_KEYS.TRANSACTION_ATTACHMENTS,
+        LEGACY_STORAGE_KEYS.TRANSACTION_METADATA,
+      ]);
+
+      const attachments: { [transactionId: string]: LegacyAttachment[] } = attachmentsData ? JSON.parse(attachmentsData) : {};
+      for (const [transactionId, items] of Object.entries(attachments)) {
+        for (const attachment of items) {
+          await db.runAsync(
+            `INSERT OR REPLACE INTO transaction_attachments
+              (id, transaction_id, uri, file_name, mime_type, size, date_added)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            attachment.id,
+            attachment.transactionId || transactionId,
+            attachment.uri,
+            attachment.fileName || '',
+            attachment.mimeType || 'image/jpeg',
+            attachment.size || 0,
+            attachment.dateAdded || new Date().toISOString()
+          );
+        }
+      }
+
+      const metadata: { [transactionId: string]: LegacyTransactionMetadata } = metadataData ? JSON.parse(metadataData) : {};
+      for (const [transactionId, item] of Object.entries(metadata)) {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO transaction_metadata (transaction_id, full_datetime, created_in_app)
+            VALUES (?, ?, ?)`,
+          item.transactionId || transactionId,
+          item.fullDatetime,
+          item.createdInApp ? 1 : 0
+        );
+      }
+
+      console.log(
+        `🗄️ Imported ${Object.keys(attachments).length} attachment groups and ${Object.keys(metadata).length} metadata records`
+      );
+    },
+  },
+  {
+    version: 3,
+    up: async (db) => {
+      // Scope rows by profile; existing rows belong to the default profile
+      await db.execAsync(`
+        ALTER TABLE transaction_attachments ADD COLUMN profile_id TEXT NOT NULL DEFAULT '${DEFAULT_PROFILE_ID}';
+        DROP INDEX IF EXISTS idx_transaction_attachments_transaction_id;
+        CREATE INDEX IF NOT EXISTS idx_transaction_attachments_profile_transaction
+          ON transaction_attachments (profile_id, transaction_id);
+        CREATE TABLE transaction_metadata_v3 (
+          profile_id TEXT NOT NULL DEFAULT '${DEFAULT_PROFILE_ID}',
+          transaction_id TEXT NOT NULL,
+          full_datetime TEXT NOT NULL,
+          created_in_app INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (profile_id, transaction_id)
+        );
+        INSERT INTO transaction_metadata_v3 (transaction_id, full_datetime, created_in_app)
+          SELECT transaction_id, full_datetime, created_in_app FROM transaction_metadata;
+        DROP TABLE transaction_metadata;
+        ALTER TABLE transaction_metadata_v3 RENAME TO transaction_metadata;
+      `);
+    },
+  },
+  {
+    version: 4,
+    up: async (db) => {
+      await db.execAsync('ALTER TABLE transaction_attachments ADD COLUMN thumbnail_uri TEXT;');
+    },
+  },
+  {
+    version: 5,
+    up: async (db) => {
+      await db.execAsync('ALTER TABLE transaction_attachments ADD COLUMN pages TEXT;');
+    },
+  },
+  {
+    version: 6,
+    up: async (db) => {
+      await db.execAsync('ALTER TABLE transaction_attachments ADD COLUMN receipt_data TEXT;');
+    },
+  },
+  {
+    version: 7,
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS transaction_reimbursements (
+          profile_id TEXT NOT NULL,
+          transaction_id TEXT NOT NULL,
+          status TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (profile_id, transaction_id)
+        );
+      `);
+    },
+  },
+];
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const migrate = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = row?.user_version ?? 0;
+  const pending = MIGRATIONS.filter((migration) => migration.version > currentVersion);
+
+  for (const migration of pending) {
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+    console.log(`🗄️ Database migrated to version ${migration.version}`);
+  }
+
+  // The legacy blobs are only removed once their import has been committed
+  if (currentVersion < 2) {
+    await AsyncStorage.multiRemove(Object.values(LEGACY_STORAGE_KEYS));
+  }
+};
+
+/**
+ * Open the local database, applying any pending migrations first.
+ * Concurrent callers share the same connection.
+ */
+export const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync('PRAGMA journal_mode = WAL;');
+      await migrate(db);
+      return db;
+    })().catch((error) => {
+      // Allow the next call to try again
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
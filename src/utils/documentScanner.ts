@@ -0,0 +1,352 @@
+import { Buffer } from 'buffer';
+import { File, Paths } from 'expo-file-system';
+import { decode, encode } from 'jpeg-js';
+import { DocumentCorners, DocumentFilter, DocumentPoint } from '../types';
+
+// jpeg-js reads and writes Node Buffers, which React Native doesn't provide globally
+const globalWithBuffer = globalThis as typeof globalThis & { Buffer?: typeof Buffer };
+if (typeof globalWithBuffer.Buffer === 'undefined') {
+  globalWithBuffer.Buffer = Buffer;
+}
+
+const DETECTION_SIZE = 200; // Longest side of the image used to find the corners
+const MAX_OUTPUT_SIZE = 1600; // Longest side of the corrected document
+const MIN_DOCUMENT_AREA = 0.1; // Smaller bright regions are treated as noise
+const MAX_DOCUMENT_AREA = 0.98; // Larger ones mean the receipt fills the frame or the threshold failed
+const OUTPUT_QUALITY = 70;
+
+// Used when no document is found, matching the frame guide shown in the camera
+export const DEFAULT_DOCUMENT_CORNERS: DocumentCorners = {
+  topLeft: { x: 0.1, y: 0.1 },
+  topRight: { x: 0.9, y: 0.1 },
+  bottomRight: { x: 0.9, y: 0.9 },
+  bottomLeft: { x: 0.1, y: 0.9 },
+};
+
+interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface DetectedDocument {
+  corners: DocumentCorners;
+  detected: boolean; // False when the default corners were returned
+  width: number;
+  height: number;
+}
+
+export interface ScannedDocument {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+const readGrayImage = async (imageUri: string): Promise<GrayImage> => {
+  const bytes = await new File(imageUri).bytes();
+  const { width, height, data } = decode(bytes, { useTArray: true, formatAsRGBA: true });
+
+  const gray = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) >> 8;
+  }
+  return { width, height, data: gray };
+};
+
+const downscale = (image: GrayImage, maxSize: number): GrayImage => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(image.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(image.width - 1, Math.floor(x / scale));
+      data[y * width + x] = image.data[sy * image.width + sx];
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Threshold that best separates the image into dark and light pixels (Otsu's method)
+ */
+const otsuThreshold = (data: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  data.forEach((value) => histogram[value]++);
+
+  const total = data.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Pixel indexes of the largest connected region brighter than the threshold
+ */
+const largestBrightRegion = (image: GrayImage, threshold: number): number[] => {
+  const { width, height, data } = image;
+  const visited = new Uint8Array(width * height);
+  let largest: number[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (visited[start] || data[start] <= threshold) continue;
+
+    const region: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && next < data.length && !visited[next] && data[next] > threshold) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    if (region.length > largest.length) {
+      largest = region;
+    }
+  }
+  return largest;
+};
+
+const quadArea = ({ topLeft, topRight, bottomRight, bottomLeft }: DocumentCorners): number => {
+  const points = [topLeft, topRight, bottomRight, bottomLeft];
+  let area = 0;
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Find the four corners of a receipt in a photo. The receipt is assumed to be the largest
+ * light region against a darker background; its corners are the region's extreme points
+ * along the two diagonals.
+ */
+export const detectDocumentCorners = async (imageUri: string): Promise<DetectedDocument> => {
+  const image = await readGrayImage(imageUri);
+  const small = downscale(image, DETECTION_SIZE);
+  const region = largestBrightRegion(small, otsuThreshold(small.data));
+  const coverage = region.length / small.data.length;
+
+  if (coverage < MIN_DOCUMENT_AREA || coverage > MAX_DOCUMENT_AREA) {
+    return { corners: DEFAULT_DOCUMENT_CORNERS, detected: false, width: image.width, height: image.height };
+  }
+
+  let topLeft = region[0];
+  let topRight = region[0];
+  let bottomRight = region[0];
+  let bottomLeft = region[0];
+  const sum = (index: number) => (index % small.width) + Math.floor(index / small.width);
+  const diff = (index: number) => (index % small.width) - Math.floor(index / small.width);
+  for (const index of region) {
+    if (sum(index) < sum(topLeft)) topLeft = index;
+    if (sum(index) > sum(bottomRight)) bottomRight = index;
+    if (diff(index) > diff(topRight)) topRight = index;
+    if (diff(index) < diff(bottomLeft)) bottomLeft = index;
+  }
+
+  const toPoint = (index: number): DocumentPoint => ({
+    x: (index % small.width) / (small.width - 1 || 1),
+    y: Math.floor(index / small.width) / (small.height - 1 || 1),
+  });
+  const corners: DocumentCorners = {
+    topLeft: toPoint(topLeft),
+    topRight: toPoint(topRight),
+    bottomRight: toPoint(bottomRight),
+    bottomLeft: toPoint(bottomLeft),
+  };
+
+  // A thin or collapsed shape means the extremes didn't land on real corners
+  if (quadArea(corners) < MIN_DOCUMENT_AREA) {
+    return { corners: DEFAULT_DOCUMENT_CORNERS, detected: false, width: image.width, height: image.height };
+  }
+  return { corners, detected: true, width: image.width, height: image.height };
+};
+
+/**
+ * Projective transform taking the unit square onto the given quadrilateral
+ * (top-left, top-right, bottom-right, bottom-left)
+ */
+const squareToQuad = (quad: DocumentPoint[]) => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const isParallelogram = Math.abs(dx3) < 1e-9 && Math.abs(dy3) < 1e-9;
+  const g = isParallelogram || denominator === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / denominator;
+  const h = isParallelogram || denominator === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / denominator;
+
+  const a = p1.x - p0.x + g * p1.x;
+  const b = p3.x - p0.x + h * p3.x;
+  const d = p1.y - p0.y + g * p1.y;
+  const e = p3.y - p0.y + h * p3.y;
+
+  return (u: number, v: number): DocumentPoint => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w };
+  };
+};
+
+const distance = (a: DocumentPoint, b: DocumentPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Cut the quadrilateral out of the image and straighten it into a rectangle
+ */
+const warpPerspective = (image: GrayImage, corners: DocumentCorners): GrayImage => {
+  const quad = [corners.topLeft, corners.topRight, corners.bottomRight, corners.bottomLeft].map((point) => ({
+    x: point.x * (image.width - 1),
+    y: point.y * (image.height - 1),
+  }));
+
+  const quadWidth = Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2]));
+  const quadHeight = Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2]));
+  const scale = Math.min(1, MAX_OUTPUT_SIZE / Math.max(quadWidth, quadHeight));
+  const width = Math.max(1, Math.round(quadWidth * scale));
+  const height = Math.max(1, Math.round(quadHeight * scale));
+
+  const transform = squareToQuad(quad);
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = transform(x / (width - 1 || 1), y / (height - 1 || 1));
+      const sx = Math.min(image.width - 1, Math.max(0, source.x));
+      const sy = Math.min(image.height - 1, Math.max(0, source.y));
+
+      // Bilinear sample between the four surrounding pixels
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(image.width - 1, x0 + 1);
+      const y1 = Math.min(image.height - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+      const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+      data[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Stretch the levels so faded print becomes dark and paper becomes white,
+ * ignoring the 2% darkest and lightest pixels
+ */
+const stretchContrast = (image: GrayImage): void => {
+  const histogram = new Array(256).fill(0);
+  image.data.forEach((value) => histogram[value]++);
+
+  const clip = image.data.length * 0.02;
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > low && count + histogram[high] <= clip; high--) count += histogram[high];
+
+  const range = Math.max(1, high - low);
+  for (let i = 0; i < image.data.length; i++) {
+    image.data[i] = Math.min(255, Math.max(0, ((image.data[i] - low) * 255) / range));
+  }
+};
+
+/**
+ * Turn each pixel black or white by comparing it with the average of its neighbourhood,
+ * so shadows across the receipt don't wipe out the text
+ */
+const adaptiveThreshold = (image: GrayImage): void => {
+  const { width, height, data } = image;
+  const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+  const offset = 12;
+
+  // Summed-area table, so each neighbourhood average costs four lookups
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const area = (bottom - top) * (right - left);
+      const total =
+        integral[bottom * stride + right] -
+        integral[top * stride + right] -
+        integral[bottom * stride + left] +
+        integral[top * stride + left];
+      data[y * width + x] = data[y * width + x] < total / area - offset ? 0 : 255;
+    }
+  }
+};
+
+/**
+ * Straighten the receipt inside the given corners, clean it up and save it as a compact JPEG
+ */
+export const scanDocument = async (
+  imageUri: string,
+  corners: DocumentCorners,
+  filter: DocumentFilter = 'grayscale'
+): Promise<ScannedDocument> => {
+  const document = warpPerspective(await readGrayImage(imageUri), corners);
+  stretchContrast(document);
+  if (filter === 'blackAndWhite') {
+    adaptiveThreshold(document);
+  }
+
+  const rgba = new Uint8Array(document.width * document.height * 4);
+  for (let i = 0, p = 0; i < document.data.length; i++, p += 4) {
+    rgba[p] = rgba[p + 1] = rgba[p + 2] = document.data[i];
+    rgba[p + 3] = 255;
+  }
+
+  const { data } = encode({ width: document.width, height: document.height, data: rgba }, OUTPUT_QUALITY);
+  const file = new File(Paths.cache, `receipt_${Date.now()}.jpg`);
+  file.create();
+  file.write(new Uint8Array(data));
+
+  return { uri: file.uri, width: document.width, height: document.height };
+};
@@ -0,0 +1,16 @@
+/**
+ * Generate a unique client-side ID (timestamp plus random suffix)
+ */
+export const generateClientId = (): string => {
+  return Date.now().toString() + Math.random().toString(36).substr(2, 9);
+};
+
+const EXTERNAL_ID_PREFIX = 'ftm-';
+
+/**
+ * Build the Lunch Money external_id for a locally created transaction.
+ * The same client ID always maps to the same external_id, so retries can be reconciled.
+ */
+export const buildExternalId = (clientId: string): string => {
+  return `${EXTERNAL_ID_PREFIX}${clientId}`;
+};
@@ -0,0 +1,23 @@
+/**
+ * Tracks the active profile so per-profile data lands under its own storage keys
+ */
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+let activeProfileId: string = DEFAULT_PROFILE_ID;
+
+export const getActiveProfileId = (): string => activeProfileId;
+
+export const setActiveProfileId = (profileId: string): void => {
+  activeProfileId = profileId;
+};
+
+/**
+ * Storage key for a profile. The default profile keeps the original unscoped keys,
+ * so data saved before profiles existed stays where it is.
+ */
+export const scopeStorageKey = (
+  key: string,
+  profileId: string = activeProfileId,
+  separator: string = ':'
+): string => (profileId === DEFAULT_PROFILE_ID ? key : `${key}${separator}${profileId}`);
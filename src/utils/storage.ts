@@ -1,4 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDatabase } from './database';
+import { getTokenStore } from './tokenStore';
+import { DEFAULT_PROFILE_ID, getActiveProfileId, scopeStorageKey } from './profileScope';
+import { deleteAttachmentFiles, deleteProfileAttachmentFiles } from './attachmentFiles';
+import { AttachmentPage, Profile, ReceiptSuggestions, ReimbursementStatus } from '../types';
 
 interface TransactionAttachment {
   id: string;
@@ -8,6 +13,9 @@ interface TransactionAttachment {
   mimeType: string;
   size: number;
   dateAdded: string;
+  thumbnailUri?: string;
+  pages?: AttachmentPage[];
+  receiptData?: ReceiptSuggestions; // Fields read from the receipt, used to match inbox receipts
 }
 
 interface TransactionMetadata {
@@ -16,30 +24,97 @@ interface TransactionMetadata {
   createdInApp: boolean; // Whether transaction was created in this app
 }
 
+interface TransactionReimbursement {
+  transactionId: string;
+  status: ReimbursementStatus;
+  updatedAt: string;
+}
+
+interface AttachmentRow {
+  id: string;
+  transaction_id: string;
+  uri: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  date_added: string;
+  thumbnail_uri: string | null;
+  pages: string | null; // JSON array of AttachmentPage
+  receipt_data: string | null; // JSON ReceiptSuggestions
+}
+
+interface MetadataRow {
+  transaction_id: string;
+  full_datetime: string;
+  created_in_app: number;
+}
+
+const toAttachment = (row: AttachmentRow): TransactionAttachment => ({
+  id: row.id,
+  transactionId: row.transaction_id,
+  uri: row.uri,
+  fileName: row.file_name,
+  mimeType: row.mime_type,
+  size: row.size,
+  dateAdded: row.date_added,
+  thumbnailUri: row.thumbnail_uri || undefined,
+  pages: row.pages ? JSON.parse(row.pages) : undefined,
+  receiptData: row.receipt_data ? JSON.parse(row.receipt_data) : undefined,
+});
+
+interface ReimbursementRow {
+  transaction_id: string;
+  status: ReimbursementStatus;
+  updated_at: string;
+}
+
+const toMetadata = (row: MetadataRow): TransactionMetadata => ({
+  transactionId: row.transaction_id,
+  fullDatetime: row.full_datetime,
+  createdInApp: row.created_in_app === 1,
+});
+
+const toReimbursement = (row: ReimbursementRow): TransactionReimbursement => ({
+  transactionId: row.transaction_id,
+  status: row.status,
+  updatedAt: row.updated_at,
+});
+
+export interface TransactionSyncCursor {
+  startDate: string; // First day of the synced month (YYYY-MM-DD)
+  endDate: string; // Last day of the synced month (YYYY-MM-DD)
+  lastSyncedAt: string; // When the month was last fetched from Lunch Money
+}
+
+// Keystore entries only allow alphanumerics, '.', '-' and '_' in their keys
+const SECURE_KEYS = {
+  LM_API_TOKEN: 'lunch_money_api_token',
+} as const;
+
 const STORAGE_KEYS = {
-  LM_API_TOKEN: '@lunch_money_api_token',
+  LEGACY_LM_API_TOKEN: '@lunch_money_api_token', // Obfuscated copy from before the keystore was used
   USER_SETTINGS: '@user_settings',
   CURRENCY_PREFERENCE: '@currency_preference',
   ACCOUNT_PREFERENCE: '@account_preference',
-  TRANSACTION_ATTACHMENTS: '@transaction_attachments',
-  TRANSACTION_METADATA: '@transaction_metadata',
+  TRANSACTION_SYNC_CURSORS: '@transaction_sync_cursors',
+  PROFILES: '@profiles',
+  ACTIVE_PROFILE_ID: '@active_profile_id',
 } as const;
 
+// Per-profile keys; keystore keys use '.' because ':' is not allowed there
+const secureKey = (key: string, profileId?: string) => scopeStorageKey(key, profileId, '.');
+const profileKey = (key: string, profileId?: string) => scopeStorageKey(key, profileId);
+
 /**
  * Secure storage utility for sensitive data like API tokens
  */
 export class SecureStorage {
   /**
-   * Store the Lunch Money API token securely
+   * Store the Lunch Money API token in the platform keystore
    */
   static async setLunchMoneyToken(token: string): Promise<void> {
     try {
-      // Simple character substitution for basic obfuscation
-      // In production, consider using react-native-keychain for true encryption
-      const obfuscatedToken = token.split('').map(char => 
-        String.fromCharCode(char.charCodeAt(0) + 1)
-      ).join('');
-      await AsyncStorage.setItem(STORAGE_KEYS.LM_API_TOKEN, obfuscatedToken);
+      await getTokenStore().setToken(secureKey(SECURE_KEYS.LM_API_TOKEN), token);
     } catch (error) {
       console.error('Error storing API token:', error);
       throw new Error('Failed to store API token');
@@ -51,26 +126,46 @@ export class SecureStorage {
    */
   static async getLunchMoneyToken(): Promise<string | null> {
     try {
-      const obfuscatedToken = await AsyncStorage.getItem(STORAGE_KEYS.LM_API_TOKEN);
-      if (!obfuscatedToken) return null;
-      
-      // Decode the obfuscated token
-      const decodedToken = obfuscatedToken.split('').map(char => 
-        String.fromCharCode(char.charCodeAt(0) - 1)
-      ).join('');
-      return decodedToken;
+      const token = await getTokenStore().getToken(secureKey(SECURE_KEYS.LM_API_TOKEN));
+      if (token) return token;
+
+      return await this.migrateLegacyToken();
     } catch (error) {
       console.error('Error retrieving API token:', error);
       return null;
     }
   }
 
+  /**
+   * Move a token saved by older versions (character-shifted in AsyncStorage) into the keystore
+   */
+  private static async migrateLegacyToken(): Promise<string | null> {
+    // The old copy always belonged to the default profile
+    if (getActiveProfileId() !== DEFAULT_PROFILE_ID) return null;
+
+    const obfuscatedToken = await AsyncStorage.getItem(STORAGE_KEYS.LEGACY_LM_API_TOKEN);
+    if (!obfuscatedToken) return null;
+
+    const decodedToken = obfuscatedToken.split('').map(char => 
+      String.fromCharCode(char.charCodeAt(0) - 1)
+    ).join('');
+
+    // Only delete the old copy once the keystore write has succeeded
+    await getTokenStore().setToken(secureKey(SECURE_KEYS.LM_API_TOKEN), decodedToken);
+    await AsyncStorage.removeItem(STORAGE_KEYS.LEGACY_LM_API_TOKEN);
+    console.log('🔐 Migrated API token to secure storage');
+    return decodedToken;
+  }
+
   /**
    * Remove the stored API token
    */
   static async removeLunchMoneyToken(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(STORAGE_KEYS.LM_API_TOKEN);
+      await getTokenStore().removeToken(secureKey(SECURE_KEYS.LM_API_TOKEN));
+      if (getActiveProfileId() === DEFAULT_PROFILE_ID) {
+        await AsyncStorage.removeItem(STORAGE_KEYS.LEGACY_LM_API_TOKEN);
+      }
     } catch (error) {
       console.error('Error removing API token:', error);
       throw new Error('Failed to remove API token');
@@ -82,7 +177,7 @@ export class SecureStorage {
    */
   static async hasLunchMoneyToken(): Promise<boolean> {
     try {
-      const token = await AsyncStorage.getItem(STORAGE_KEYS.LM_API_TOKEN);
+      const token = await this.getLunchMoneyToken();
       return token !== null;
     } catch (error) {
       console.error('Error checking API token:', error);
@@ -95,7 +190,7 @@ export class SecureStorage {
    */
   static async setUserSettings(settings: Record<string, any>): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.USER_SETTINGS, JSON.stringify(settings));
+      await AsyncStorage.setItem(profileKey(STORAGE_KEYS.USER_SETTINGS), JSON.stringify(settings));
     } catch (error) {
       console.error('Error storing user settings:', error);
       throw new Error('Failed to store user settings');
@@ -107,7 +202,7 @@ export class SecureStorage {
    */
   static async getUserSettings(): Promise<Record<string, any> | null> {
     try {
-      const settings = await AsyncStorage.getItem(STORAGE_KEYS.USER_SETTINGS);
+      const settings = await AsyncStorage.getItem(profileKey(STORAGE_KEYS.USER_SETTINGS));
       return settings ? JSON.parse(settings) : null;
     } catch (error) {
       console.error('Error retrieving user settings:', error);
@@ -120,7 +215,7 @@ export class SecureStorage {
    */
   static async setCurrencyPreference(currency: string): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.CURRENCY_PREFERENCE, currency);
+      await AsyncStorage.setItem(profileKey(STORAGE_KEYS.CURRENCY_PREFERENCE), currency);
     } catch (error) {
       console.error('Error storing currency preference:', error);
       throw new Error('Failed to store currency preference');
@@ -132,7 +227,7 @@ export class SecureStorage {
    */
   static async getCurrencyPreference(): Promise<string | null> {
     try {
-      return await AsyncStorage.getItem(STORAGE_KEYS.CURRENCY_PREFERENCE);
+      return await AsyncStorage.getItem(profileKey(STORAGE_KEYS.CURRENCY_PREFERENCE));
     } catch (error) {
       console.error('Error retrieving currency preference:', error);
       return null;
@@ -144,7 +239,7 @@ export class SecureStorage {
    */
   static async setAccountPreference(accountId: string): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.ACCOUNT_PREFERENCE, accountId);
+      await AsyncStorage.setItem(profileKey(STORAGE_KEYS.ACCOUNT_PREFERENCE), accountId);
     } catch (error) {
       console.error('Error storing account preference:', error);
       throw new Error('Failed to store account preference');
@@ -156,7 +251,7 @@ export class SecureStorage {
    */
   static async getAccountPreference(): Promise<string | null> {
     try {
-      return await AsyncStorage.getItem(STORAGE_KEYS.ACCOUNT_PREFERENCE);
+      return await AsyncStorage.getItem(profileKey(STORAGE_KEYS.ACCOUNT_PREFERENCE));
     } catch (error) {
       console.error('Error retrieving account preference:', error);
       return null;
@@ -168,13 +263,23 @@ export class SecureStorage {
    */
   static async addTransactionAttachment(attachment: TransactionAttachment): Promise<void> {
     try {
-      const existingAttachments = await this.getTransactionAttachments(attachment.transactionId);
-      const updatedAttachments = [...existingAttachments, attachment];
-      
-      const allAttachments = await this.getAllAttachments();
-      allAttachments[attachment.transactionId] = updatedAttachments;
-      
-      await AsyncStorage.setItem(STORAGE_KEYS.TRANSACTION_ATTACHMENTS, JSON.stringify(allAttachments));
+      const db = await getDatabase();
+      await db.runAsync(
+        `INSERT OR REPLACE INTO transaction_attachments
+          (id, profile_id, transaction_id, uri, file_name, mime_type, size, date_added, thumbnail_uri, pages, receipt_data)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        attachment.id,
+        getActiveProfileId(),
+        attachment.transactionId,
+        attachment.uri,
+        attachment.fileName,
+        attachment.mimeType,
+        attachment.size,
+        attachment.dateAdded,
+        attachment.thumbnailUri || null,
+        attachment.pages && attachment.pages.length > 1 ? JSON.stringify(attachment.pages) : null,
+        attachment.receiptData ? JSON.stringify(attachment.receiptData) : null
+      );
     } catch (error) {
       console.error('Error adding transaction attachment:', error);
       throw new Error('Failed to save attachment');
@@ -186,8 +291,13 @@ export class SecureStorage {
    */
   static async getTransactionAttachments(transactionId: string): Promise<TransactionAttachment[]> {
     try {
-      const allAttachments = await this.getAllAttachments();
-      return allAttachments[transactionId] || [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<AttachmentRow>(
+        'SELECT * FROM transaction_attachments WHERE profile_id = ? AND transaction_id = ? ORDER BY date_added',
+        getActiveProfileId(),
+        transactionId
+      );
+      return rows.map(toAttachment);
     } catch (error) {
       console.error('Error retrieving transaction attachments:', error);
       return [];
@@ -199,8 +309,16 @@ export class SecureStorage {
    */
   static async getAllAttachments(): Promise<{ [transactionId: string]: TransactionAttachment[] }> {
     try {
-      const attachmentsData = await AsyncStorage.getItem(STORAGE_KEYS.TRANSACTION_ATTACHMENTS);
-      return attachmentsData ? JSON.parse(attachmentsData) : {};
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<AttachmentRow>(
+        'SELECT * FROM transaction_attachments WHERE profile_id = ? ORDER BY transaction_id, date_added',
+        getActiveProfileId()
+      );
+      const allAttachments: { [transactionId: string]: TransactionAttachment[] } = {};
+      rows.forEach((row) => {
+        allAttachments[row.transaction_id] = [...(allAttachments[row.transaction_id] || []), toAttachment(row)];
+      });
+      return allAttachments;
     } catch (error) {
       console.error('Error retrieving all attachments:', error);
       return {};
@@ -208,22 +326,25 @@ export class SecureStorage {
   }
 
   /**
-   * Remove an attachment
+   * Remove an attachment and delete its stored files
    */
   static async removeTransactionAttachment(transactionId: string, attachmentId: string): Promise<void> {
     try {
-      const allAttachments = await this.getAllAttachments();
-      if (allAttachments[transactionId]) {
-        allAttachments[transactionId] = allAttachments[transactionId].filter(
-          attachment => attachment.id !== attachmentId
-        );
-        
-        // Remove the transaction key if no attachments left
-        if (allAttachments[transactionId].length === 0) {
-          delete allAttachments[transactionId];
-        }
-        
-        await AsyncStorage.setItem(STORAGE_KEYS.TRANSACTION_ATTACHMENTS, JSON.stringify(allAttachments));
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<AttachmentRow>(
+        'SELECT * FROM transaction_attachments WHERE profile_id = ? AND transaction_id = ? AND id = ?',
+        getActiveProfileId(),
+        transactionId,
+        attachmentId
+      );
+      await db.runAsync(
+        'DELETE FROM transaction_attachments WHERE profile_id = ? AND transaction_id = ? AND id = ?',
+        getActiveProfileId(),
+        transactionId,
+        attachmentId
+      );
+      if (row) {
+        deleteAttachmentFiles(toAttachment(row));
       }
     } catch (error) {
       console.error('Error removing transaction attachment:', error);
@@ -231,14 +352,56 @@ export class SecureStorage {
     }
   }
 
+  /**
+   * Move an attachment to another transaction, e.g. when an inbox receipt is matched
+   */
+  static async linkAttachmentToTransaction(attachmentId: string, transactionId: string): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.runAsync(
+        'UPDATE transaction_attachments SET transaction_id = ? WHERE profile_id = ? AND id = ?',
+        transactionId,
+        getActiveProfileId(),
+        attachmentId
+      );
+    } catch (error) {
+      console.error('Error linking attachment to transaction:', error);
+      throw new Error('Failed to link attachment');
+    }
+  }
+
+  /**
+   * Save the fields read from an attachment's receipt
+   */
+  static async setAttachmentReceiptData(attachmentId: string, receiptData: ReceiptSuggestions): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.runAsync(
+        'UPDATE transaction_attachments SET receipt_data = ? WHERE profile_id = ? AND id = ?',
+        JSON.stringify(receiptData),
+        getActiveProfileId(),
+        attachmentId
+      );
+    } catch (error) {
+      console.error('Error saving attachment receipt data:', error);
+      throw new Error('Failed to save receipt data');
+    }
+  }
+
   /**
    * Store transaction metadata (datetime, app-created flag, etc.)
    */
   static async storeTransactionMetadata(metadata: TransactionMetadata): Promise<void> {
     try {
-      const allMetadata = await this.getAllTransactionMetadata();
-      allMetadata[metadata.transactionId] = metadata;
-      await AsyncStorage.setItem(STORAGE_KEYS.TRANSACTION_METADATA, JSON.stringify(allMetadata));
+      const db = await getDatabase();
+      await db.runAsync(
+        `INSERT OR REPLACE INTO transaction_metadata (profile_id, transaction_id, full_datetime, created_in_app)
+          VALUES (?, ?, ?, ?)`,
+        getActiveProfileId(),
+        metadata.transactionId,
+        metadata.fullDatetime,
+        metadata.createdInApp ? 1 : 0
+      );
     } catch (error) {
       console.error('Error storing transaction metadata:', error);
       throw new Error('Failed to store transaction metadata');
@@ -250,8 +413,13 @@ export class SecureStorage {
    */
   static async getTransactionMetadata(transactionId: string): Promise<TransactionMetadata | null> {
     try {
-      const allMetadata = await this.getAllTransactionMetadata();
-      return allMetadata[transactionId] || null;
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<MetadataRow>(
+        'SELECT * FROM transaction_metadata WHERE profile_id = ? AND transaction_id = ?',
+        getActiveProfileId(),
+        transactionId
+      );
+      return row ? toMetadata(row) : null;
     } catch (error) {
       console.error('Error retrieving transaction metadata:', error);
       return null;
@@ -263,11 +431,198 @@ export class SecureStorage {
    */
   static async getAllTransactionMetadata(): Promise<{ [transactionId: string]: TransactionMetadata }> {
     try {
-      const metadataData = await AsyncStorage.getItem(STORAGE_KEYS.TRANSACTION_METADATA);
-      return metadataData ? JSON.parse(metadataData) : {};
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<MetadataRow>(
+        'SELECT * FROM transaction_metadata WHERE profile_id = ?',
+        getActiveProfileId()
+      );
+      const allMetadata: { [transactionId: string]: TransactionMetadata } = {};
+      rows.forEach((row) => {
+        allMetadata[row.transaction_id] = toMetadata(row);
+      });
+      return allMetadata;
     } catch (error) {
       console.error('Error retrieving all transaction metadata:', error);
       return {};
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Remove the metadata of a transaction (e.g. once it has been deleted)
+   */
+  static async removeTransactionMetadata(transactionId: string): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.runAsync(
+        'DELETE FROM transaction_metadata WHERE profile_id = ? AND transaction_id = ?',
+        getActiveProfileId(),
+        transactionId
+      );
+    } catch (error) {
+      console.error('Error removing transaction metadata:', error);
+      throw new Error('Failed to remove transaction metadata');
+    }
+  }
+
+  /**
+   * Set the reimbursement status of transactions, or clear it with null
+   */
+  static async setTransactionReimbursements(
+    transactionIds: string[],
+    status: ReimbursementStatus | null
+  ): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const updatedAt = new Date().toISOString();
+      await db.withTransactionAsync(async () => {
+        for (const transactionId of transactionIds) {
+          if (status) {
+            await db.runAsync(
+              `INSERT OR REPLACE INTO transaction_reimbursements (profile_id, transaction_id, status, updated_at)
+                VALUES (?, ?, ?, ?)`,
+              getActiveProfileId(),
+              transactionId,
+              status,
+              updatedAt
+            );
+          } else {
+            await db.runAsync(
+              'DELETE FROM transaction_reimbursements WHERE profile_id = ? AND transaction_id = ?',
+              getActiveProfileId(),
+              transactionId
+            );
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Error storing transaction reimbursements:', error);
+      throw new Error('Failed to store reimbursement status');
+    }
+  }
+
+  /**
+   * Get the reimbursement status of every reimbursable transaction
+   */
+  static async getAllTransactionReimbursements(): Promise<{ [transactionId: string]: TransactionReimbursement }> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<ReimbursementRow>(
+        'SELECT * FROM transaction_reimbursements WHERE profile_id = ?',
+        getActiveProfileId()
+      );
+      const allReimbursements: { [transactionId: string]: TransactionReimbursement } = {};
+      rows.forEach((row) => {
+        allReimbursements[row.transaction_id] = toReimbursement(row);
+      });
+      return allReimbursements;
+    } catch (error) {
+      console.error('Error retrieving transaction reimbursements:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Store the transaction sync cursors, keyed by month (YYYY-MM).
+   * A sync passes the profile it started in, which may no longer be the active one.
+   */
+  static async setTransactionSyncCursors(
+    cursors: { [monthKey: string]: TransactionSyncCursor },
+    profileId?: string
+  ): Promise<void> {
+    try {
+      await AsyncStorage.setItem(profileKey(STORAGE_KEYS.TRANSACTION_SYNC_CURSORS, profileId), JSON.stringify(cursors));
+    } catch (error) {
+      console.error('Error storing transaction sync cursors:', error);
+      throw new Error('Failed to store sync cursors');
+    }
+  }
+
+  /**
+   * Get the transaction sync cursors, keyed by month (YYYY-MM)
+   */
+  static async getTransactionSyncCursors(profileId?: string): Promise<{ [monthKey: string]: TransactionSyncCursor }> {
+    try {
+      const cursorsData = await AsyncStorage.getItem(profileKey(STORAGE_KEYS.TRANSACTION_SYNC_CURSORS, profileId));
+      return cursorsData ? JSON.parse(cursorsData) : {};
+    } catch (error) {
+      console.error('Error retrieving transaction sync cursors:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Store the list of profiles
+   */
+  static async setProfiles(profiles: Profile[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.PROFILES, JSON.stringify(profiles));
+    } catch (error) {
+      console.error('Error storing profiles:', error);
+      throw new Error('Failed to store profiles');
+    }
+  }
+
+  /**
+   * Get the list of profiles
+   */
+  static async getProfiles(): Promise<Profile[]> {
+    try {
+      const profilesData = await AsyncStorage.getItem(STORAGE_KEYS.PROFILES);
+      return profilesData ? JSON.parse(profilesData) : [];
+    } catch (error) {
+      console.error('Error retrieving profiles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store the ID of the profile to open on next launch
+   */
+  static async setActiveProfileId(profileId: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_PROFILE_ID, profileId);
+    } catch (error) {
+      console.error('Error storing active profile:', error);
+      throw new Error('Failed to store active profile');
+    }
+  }
+
+  /**
+   * Get the ID of the profile to open on launch
+   */
+  static async getActiveProfileId(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_PROFILE_ID);
+    } catch (error) {
+      console.error('Error retrieving active profile:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove everything stored for a profile (token, preferences, sync cursors, attachments, metadata,
+   * reimbursements)
+   */
+  static async removeProfileData(profileId: string): Promise<void> {
+    try {
+      await getTokenStore().removeToken(secureKey(SECURE_KEYS.LM_API_TOKEN, profileId));
+      await AsyncStorage.multiRemove([
+        profileKey(STORAGE_KEYS.USER_SETTINGS, profileId),
+        profileKey(STORAGE_KEYS.CURRENCY_PREFERENCE, profileId),
+        profileKey(STORAGE_KEYS.ACCOUNT_PREFERENCE, profileId),
+        profileKey(STORAGE_KEYS.TRANSACTION_SYNC_CURSORS, profileId),
+      ]);
+
+      const db = await getDatabase();
+      await db.withTransactionAsync(async () => {
+        await db.runAsync('DELETE FROM transaction_attachments WHERE profile_id = ?', profileId);
+        await db.runAsync('DELETE FROM transaction_metadata WHERE profile_id = ?', profileId);
+        await db.runAsync('DELETE FROM transaction_reimbursements WHERE profile_id = ?', profileId);
+      });
+      deleteProfileAttachmentFiles(profileId);
+    } catch (error) {
+      console.error('Error removing profile data:', error);
+      throw new Error('Failed to remove profile data');
+    }
+  }
+}
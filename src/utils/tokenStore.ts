@@ -0,0 +1,46 @@
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Backend for secrets such as API tokens. Swap it with `setTokenStore` (e.g. in tests).
+ */
+export interface TokenStore {
+  getToken: (key: string) => Promise<string | null>;
+  setToken: (key: string, token: string) => Promise<void>;
+  removeToken: (key: string) => Promise<void>;
+}
+
+/**
+ * Token store backed by the platform keystore (iOS Keychain / Android Keystore)
+ */
+export const secureTokenStore: TokenStore = {
+  getToken: (key) => SecureStore.getItemAsync(key),
+  setToken: (key, token) =>
+    SecureStore.setItemAsync(key, token, {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    }),
+  removeToken: (key) => SecureStore.deleteItemAsync(key),
+};
+
+/**
+ * Token store that only keeps tokens in memory
+ */
+export const createMemoryTokenStore = (initial: { [key: string]: string } = {}): TokenStore => {
+  const tokens = new Map(Object.entries(initial));
+  return {
+    getToken: async (key) => tokens.get(key) ?? null,
+    setToken: async (key, token) => {
+      tokens.set(key, token);
+    },
+    removeToken: async (key) => {
+      tokens.delete(key);
+    },
+  };
+};
+
+let activeTokenStore: TokenStore = secureTokenStore;
+
+export const getTokenStore = (): TokenStore => activeTokenStore;
+
+export const setTokenStore = (store: TokenStore): void => {
+  activeTokenStore = store;
+};